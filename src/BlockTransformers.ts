@@ -0,0 +1,215 @@
+import type { BlockObjectResponse, RichTextItemResponse } from "@notionhq/client/build/src/api-endpoints";
+import Messages, { defaultMessages } from "./Messages.js";
+import { toCallout } from "./ObsidianMarkdown.js";
+
+/**
+ * 块转换器可以使用的辅助方法
+ */
+export interface TransformerContext {
+    /**
+     * 将富文本转换为 Markdown(保留加粗、链接、行内公式等格式)
+     */
+    richText(richText: RichTextItemResponse[]): Promise<string>;
+
+    /**
+     * 转换块的所有子块(同步块读取原始块的子块,不含子页面),没有子块时返回空字符串
+     */
+    children(block: BlockObjectResponse): Promise<string>;
+
+    /**
+     * 获取块的直接子块(同步块返回原始块的子块)
+     */
+    childBlocks(block: BlockObjectResponse): Promise<BlockObjectResponse[]>;
+}
+
+/**
+ * 块转换器:返回块的 Markdown,返回 false 时使用默认转换
+ * 注册了转换器的块类型不会再自动转换子块,需要时通过 context.children 转换
+ */
+export type BlockTransformer = (
+    block: BlockObjectResponse,
+    context: TransformerContext
+) => string | false | Promise<string | false>;
+
+export interface BlockTransformerDefinition {
+    blockType: string;          // 转换的块类型,如 callout、toggle
+    transform: BlockTransformer;
+}
+
+export type BuiltinTransformerName =
+    | "callout-obsidian"
+    | "callout-admonition"
+    | "toggle-details"
+    | "equation-block"
+    | "equation-math-fence"
+    | "bookmark-card"
+    | "embed-iframe"
+    | "column-list-table";
+
+/**
+ * 转换器设置:内置转换器名称或自定义转换器
+ */
+export type TransformerSetting = BuiltinTransformerName | BlockTransformerDefinition;
+
+// 标注图标到 admonition 类型的映射,其他图标保留在正文中
+const ADMONITION_TYPES: Record<string, string> = {
+    "💡": "tip",
+    "ℹ️": "info",
+    "📝": "note",
+    "⚠️": "warning",
+    "❗": "danger",
+    "🚨": "danger",
+    "✅": "success",
+    "❓": "question",
+};
+
+/**
+ * 内置转换器
+ * - callout-obsidian: 标注转为 Obsidian 标注(> [!note]),obsidian 风格默认使用
+ * - callout-admonition: 标注转为 admonition(!!! tip),适用于 MkDocs 等
+ * - toggle-details: 折叠块转为 <details>
+ * - equation-block: 公式块转为 $$ 块
+ * - equation-math-fence: 公式块转为 ```math 代码块(GitHub、GitLab)
+ * - bookmark-card: 书签转为带说明的链接卡片
+ * - embed-iframe: 嵌入转为 <iframe>
+ * - column-list-table: 分栏转为 HTML 表格,各栏并排显示
+ */
+export const BUILTIN_TRANSFORMERS: Record<BuiltinTransformerName, BlockTransformerDefinition> = {
+    "callout-obsidian": {
+        blockType: "callout",
+        transform: async (block, context) => {
+            if (block.type !== "callout") {
+                return false;
+            }
+            const icon = block.callout.icon?.type === "emoji" ? `${block.callout.icon.emoji} ` : "";
+            let content = `${icon}${await context.richText(block.callout.rich_text)}`;
+            const children = await context.children(block);
+            if (children) {
+                content += `\n\n${children}`;
+            }
+            return toCallout(content);
+        },
+    },
+    "callout-admonition": {
+        blockType: "callout",
+        transform: async (block, context) => {
+            if (block.type !== "callout") {
+                return false;
+            }
+            const emoji = block.callout.icon?.type === "emoji" ? block.callout.icon.emoji : "";
+            const type = ADMONITION_TYPES[emoji] ?? "note";
+            let content = await context.richText(block.callout.rich_text);
+            if (emoji && !ADMONITION_TYPES[emoji]) {
+                content = `${emoji} ${content}`;
+            }
+            const children = await context.children(block);
+            if (children) {
+                content += `\n\n${children}`;
+            }
+            return `!!! ${type}\n${indent(content.trim(), "    ")}`;
+        },
+    },
+    "toggle-details": {
+        blockType: "toggle",
+        transform: async (block, context) => {
+            if (block.type !== "toggle") {
+                return false;
+            }
+            const summary = await context.richText(block.toggle.rich_text);
+            const children = await context.children(block);
+            return `<details>\n<summary>${summary}</summary>\n\n${children}\n\n</details>`;
+        },
+    },
+    "equation-block": {
+        blockType: "equation",
+        transform: block => (block.type === "equation" ? `$$\n${block.equation.expression.trim()}\n$$` : false),
+    },
+    "equation-math-fence": {
+        blockType: "equation",
+        transform: block => (block.type === "equation" ? `\`\`\`math\n${block.equation.expression.trim()}\n\`\`\`` : false),
+    },
+    "bookmark-card": {
+        blockType: "bookmark",
+        transform: async (block, context) => {
+            if (block.type !== "bookmark" || !block.bookmark.url) {
+                return false;
+            }
+            const { url } = block.bookmark;
+            const caption = await context.richText(block.bookmark.caption);
+            const lines = [`> 🔖 **[${linkLabel(url)}](${url})**`];
+            if (caption) {
+                lines.push(">", `> ${caption.replace(/\n/g, "\n> ")}`);
+            }
+            return lines.join("\n");
+        },
+    },
+    "embed-iframe": {
+        blockType: "embed",
+        transform: async (block, context) => {
+            if (block.type !== "embed" || !block.embed.url) {
+                return false;
+            }
+            const iframe = `<iframe src="${escapeAttribute(block.embed.url)}" width="100%" height="480" frameborder="0" allowfullscreen></iframe>`;
+            const caption = await context.richText(block.embed.caption);
+            return caption ? `${iframe}\n\n${caption}` : iframe;
+        },
+    },
+    "column-list-table": {
+        blockType: "column_list",
+        transform: async (block, context) => {
+            if (block.type !== "column_list") {
+                return false;
+            }
+            const cells: string[] = [];
+            for (const column of await context.childBlocks(block)) {
+                cells.push(`<td valign="top">\n\n${await context.children(column)}\n\n</td>`);
+            }
+            return `<table>\n<tr>\n${cells.join("\n")}\n</tr>\n</table>`;
+        },
+    },
+};
+
+export const BUILTIN_TRANSFORMER_NAMES = Object.keys(BUILTIN_TRANSFORMERS) as BuiltinTransformerName[];
+
+/**
+ * 解析转换器设置
+ * @param setting - 内置转换器名称或自定义转换器
+ * @param messages - 错误信息使用的消息目录
+ * @returns 转换器定义
+ */
+export function resolveTransformer(setting: TransformerSetting, messages: Messages = defaultMessages): BlockTransformerDefinition {
+    if (typeof setting !== "string") {
+        return setting;
+    }
+    const definition = BUILTIN_TRANSFORMERS[setting];
+    if (!definition) {
+        throw new Error(messages.t("transformer.unknown", { name: setting, transformers: BUILTIN_TRANSFORMER_NAMES.join(", ") }));
+    }
+    return definition;
+}
+
+/**
+ * 为每个非空行添加缩进
+ */
+function indent(content: string, prefix: string): string {
+    return content.split("\n").map(line => (line ? `${prefix}${line}` : "")).join("\n");
+}
+
+/**
+ * 链接卡片的标题:网址的域名和路径,无法解析时使用原网址
+ */
+function linkLabel(url: string): string {
+    try {
+        const { hostname, pathname } = new URL(url);
+        return `${hostname}${pathname === "/" ? "" : pathname}`;
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * 转义 HTML 属性值
+ */
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
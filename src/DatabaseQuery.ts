@@ -0,0 +1,257 @@
+import { normalizeNotionId } from "./LinkRewriter.js";
+import type { PageOrDatabase } from "./NotionClient.js";
+import Messages, { defaultMessages } from "./Messages.js";
+
+export type NotionFilter = Record<string, unknown>;
+export type NotionSort = Record<string, unknown>;
+
+/**
+ * 数据库查询条件(直接作为 databases.query 的请求参数)
+ */
+export interface DatabaseQuery {
+    filter?: NotionFilter;
+    sorts?: NotionSort[];
+}
+
+/**
+ * 数据库的筛选和排序规则
+ * filter 为筛选表达式(如 "Status = Published and Priority >= 2")或 Notion API 的 filter 对象
+ * sort 为排序表达式(如 "Date desc, Name")或 Notion API 的 sorts 数组
+ */
+export interface DatabaseQueryRule {
+    database: string;   // 数据库 ID 或标题
+    filter?: string | NotionFilter;
+    sort?: string | NotionSort[];
+}
+
+type Operator = "=" | "!=" | ">" | "<" | ">=" | "<=" | "contains" | "does not contain" | "is empty" | "is not empty";
+
+const TEXT_TYPES = new Set(["title", "rich_text", "url", "email", "phone_number"]);
+const OPTION_TYPES = new Set(["select", "status"]);
+const LIST_TYPES = new Set(["multi_select", "people", "relation"]);
+const ID_TYPES = new Set(["people", "relation"]);    // 按用户或页面 ID 筛选的属性
+const DATE_TYPES = new Set(["date", "created_time", "last_edited_time"]);
+
+// 各类属性支持的运算符到 Notion 筛选条件的映射
+const TEXT_CONDITIONS: Partial<Record<Operator, string>> = {
+    "=": "equals",
+    "!=": "does_not_equal",
+    "contains": "contains",
+    "does not contain": "does_not_contain",
+};
+const OPTION_CONDITIONS: Partial<Record<Operator, string>> = {
+    "=": "equals",
+    "!=": "does_not_equal",
+};
+const LIST_CONDITIONS: Partial<Record<Operator, string>> = {
+    "=": "contains",
+    "contains": "contains",
+    "!=": "does_not_contain",
+    "does not contain": "does_not_contain",
+};
+const NUMBER_CONDITIONS: Partial<Record<Operator, string>> = {
+    "=": "equals",
+    "!=": "does_not_equal",
+    ">": "greater_than",
+    "<": "less_than",
+    ">=": "greater_than_or_equal_to",
+    "<=": "less_than_or_equal_to",
+};
+const DATE_CONDITIONS: Partial<Record<Operator, string>> = {
+    "=": "equals",
+    ">": "after",
+    "<": "before",
+    ">=": "on_or_after",
+    "<=": "on_or_before",
+};
+
+/**
+ * 解析命令行中 "<数据库 ID 或标题>:<表达式>" 形式的规则(以第一个冒号分隔)
+ * @param value - 选项值
+ * @param messages - 错误信息使用的消息目录
+ * @returns 数据库和表达式
+ */
+export function parseDatabaseRule(value: string, messages: Messages = defaultMessages): { database: string; expression: string } {
+    const index = value.indexOf(":");
+    const database = value.substring(0, index).trim();
+    const expression = value.substring(index + 1).trim();
+    if (index < 0 || !database || !expression) {
+        throw new Error(messages.t("query.invalidRule", { value }));
+    }
+    return { database, expression };
+}
+
+/**
+ * 根据规则生成数据库的查询条件,同一数据库有多条规则时后面的规则优先
+ * @param rules - 筛选和排序规则
+ * @param database - 数据库对象(用于匹配 ID、标题和读取属性类型)
+ * @param title - 数据库标题
+ * @param messages - 错误信息使用的消息目录
+ * @returns 查询条件,没有匹配的规则时为空对象
+ */
+export function buildDatabaseQuery(
+    rules: DatabaseQueryRule[],
+    database: PageOrDatabase,
+    title: string,
+    messages: Messages = defaultMessages
+): DatabaseQuery {
+    const schema: Record<string, { type: string }> = "properties" in database ? database.properties : {};
+    const query: DatabaseQuery = {};
+
+    for (const rule of rules) {
+        if (!matchesDatabase(rule.database, database.id, title)) {
+            continue;
+        }
+        if (rule.filter !== undefined) {
+            query.filter = typeof rule.filter === "string" ? parseFilter(rule.filter, schema, messages) : rule.filter;
+        }
+        if (rule.sort !== undefined) {
+            query.sorts = typeof rule.sort === "string" ? parseSorts(rule.sort, schema, messages) : rule.sort;
+        }
+    }
+
+    return query;
+}
+
+/**
+ * 规则是否适用于数据库(ID 或标题相同,标题不区分大小写)
+ */
+function matchesDatabase(selector: string, id: string, title: string): boolean {
+    return normalizeNotionId(selector) === normalizeNotionId(id)
+        || selector.trim().toLowerCase() === title.trim().toLowerCase();
+}
+
+/**
+ * 解析以 and 连接的筛选表达式
+ * @param expression - 筛选表达式,如 "Status = Published and Done = false"
+ * @param schema - 数据库属性
+ * @param messages - 错误信息使用的消息目录
+ */
+function parseFilter(expression: string, schema: Record<string, { type: string }>, messages: Messages): NotionFilter {
+    const filters = splitConditions(expression, schema).map(condition => parseCondition(condition.trim(), schema, messages));
+    return filters.length === 1 ? filters[0] : { and: filters };
+}
+
+/**
+ * 按 and 拆分筛选条件:and 之后不是以已有属性开头的条件,或前一个条件的值以引号开头但尚未结束时,
+ * and 属于值的一部分(如 "Name = Rock and Roll")
+ * @param expression - 筛选表达式
+ * @param schema - 数据库属性
+ */
+function splitConditions(expression: string, schema: Record<string, { type: string }>): string[] {
+    const parts = expression.split(/(\s+and\s+)/i);
+    const conditions = [parts[0]];
+    for (let index = 1; index < parts.length; index += 2) {
+        const separator = parts[index];
+        const part = parts[index + 1];
+        const previous = conditions[conditions.length - 1];
+        const name = matchCondition(part)?.[1].trim();
+        if (hasOpenQuote(previous) || name === undefined || !schema[name]) {
+            conditions[conditions.length - 1] = `${previous}${separator}${part}`;
+        } else {
+            conditions.push(part);
+        }
+    }
+    return conditions;
+}
+
+/**
+ * 条件的值是否以引号开头但尚未结束
+ */
+function hasOpenQuote(condition: string): boolean {
+    const value = matchCondition(condition)?.[3]?.trim() ?? "";
+    const quote = value[0];
+    return (quote === "\"" || quote === "'") && (value.length === 1 || !value.endsWith(quote));
+}
+
+/**
+ * 匹配筛选条件的属性、运算符和值
+ */
+function matchCondition(condition: string): RegExpMatchArray | null {
+    return condition.match(/^(.+?)\s+(is empty|is not empty)$/i)
+        ?? condition.match(/^(.+?)\s+(contains|does not contain)\s+(.+)$/i)
+        ?? condition.match(/^(.+?)\s*(>=|<=|!=|=|>|<)\s*(.+)$/);
+}
+
+/**
+ * 解析单个筛选条件
+ */
+function parseCondition(condition: string, schema: Record<string, { type: string }>, messages: Messages): NotionFilter {
+    const match = matchCondition(condition);
+    if (!match) {
+        throw new Error(messages.t("query.invalidCondition", { condition }));
+    }
+
+    const name = match[1].trim();
+    const operator = match[2].toLowerCase() as Operator;
+    const value = (match[3] ?? "").trim().replace(/^(["'])(.*)\1$/, "$2");
+
+    const property = schema[name];
+    if (!property) {
+        throw new Error(messages.t("query.unknownProperty", { name }));
+    }
+
+    const { type } = property;
+    if (operator === "is empty" || operator === "is not empty") {
+        return { property: name, [type]: { [operator === "is empty" ? "is_empty" : "is_not_empty"]: true } };
+    }
+
+    let conditions: Partial<Record<Operator, string>> = {};
+    let parsed: unknown = value;
+    if (TEXT_TYPES.has(type)) {
+        conditions = TEXT_CONDITIONS;
+    } else if (OPTION_TYPES.has(type)) {
+        conditions = OPTION_CONDITIONS;
+    } else if (LIST_TYPES.has(type)) {
+        conditions = LIST_CONDITIONS;
+        // 人员和关联属性只能按 ID 筛选,Notion 不接受名称
+        if (ID_TYPES.has(type) && !/^[0-9a-f]{32}$/i.test(value.replace(/-/g, ""))) {
+            throw new Error(messages.t("query.notId", { type, name, value }));
+        }
+    } else if (DATE_TYPES.has(type)) {
+        conditions = DATE_CONDITIONS;
+    } else if (type === "number") {
+        conditions = NUMBER_CONDITIONS;
+        parsed = Number(value);
+        if (value === "" || !Number.isFinite(parsed)) {
+            throw new Error(messages.t("query.notNumber", { name, value }));
+        }
+    } else if (type === "checkbox") {
+        conditions = OPTION_CONDITIONS;
+        if (value !== "true" && value !== "false") {
+            throw new Error(messages.t("query.notBoolean", { name }));
+        }
+        parsed = value === "true";
+    } else {
+        throw new Error(messages.t("query.unsupportedType", { type, name }));
+    }
+
+    const notionCondition = conditions[operator];
+    if (!notionCondition) {
+        throw new Error(messages.t("query.unsupportedOperator", { type, name, operator }));
+    }
+    return { property: name, [type]: { [notionCondition]: parsed } };
+}
+
+/**
+ * 解析以逗号分隔的排序表达式
+ * @param expression - 排序表达式,如 "Date desc, Name"
+ * @param schema - 数据库属性
+ * @param messages - 错误信息使用的消息目录
+ */
+function parseSorts(expression: string, schema: Record<string, { type: string }>, messages: Messages): NotionSort[] {
+    return expression.split(",").map(item => item.trim()).filter(Boolean).map(item => {
+        const match = item.match(/^(.+?)(?:\s+(asc|desc|ascending|descending))?$/i)!;
+        const name = match[1].trim();
+        const direction = match[2]?.toLowerCase().startsWith("desc") ? "descending" : "ascending";
+
+        if (schema[name]) {
+            return { property: name, direction };
+        }
+        // 没有同名属性时支持按创建时间和最后编辑时间排序
+        if (name === "created_time" || name === "last_edited_time") {
+            return { timestamp: name, direction };
+        }
+        throw new Error(messages.t("query.unknownSortProperty", { name }));
+    });
+}
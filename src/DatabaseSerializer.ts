@@ -0,0 +1,92 @@
+import { isFullPage } from "@notionhq/client";
+import type { PageOrDatabase } from "./NotionClient.js";
+import type DatabaseToMarkdown from "./DatabaseToMarkdown.js";
+import { getDatabaseColumns } from "./DatabaseToMarkdown.js";
+import { propertiesToValues, PropertyValue } from "./PropertyValues.js";
+
+/**
+ * 数据库导出格式(Markdown 表格始终导出)
+ */
+export type DatabaseFormat = "md" | "csv" | "json";
+
+export const DATABASE_FORMATS: DatabaseFormat[] = ["md", "csv", "json"];
+
+export interface DatabaseJson {
+    id: string;
+    title: string;
+    url: string | null;
+    schema: Record<string, string>;   // 属性名到属性类型的映射
+    rows: DatabaseJsonRow[];
+}
+
+export interface DatabaseJsonRow {
+    id: string;
+    url: string;
+    created_time: string;
+    last_edited_time: string;
+    properties: Record<string, PropertyValue>;
+}
+
+/**
+ * 转义 CSV 字段
+ * @param value - 字段值
+ */
+function escapeCsvField(value: string): string {
+    if (/[",\r\n]/.test(value)) {
+        return `"${value.replace(/"/g, "\"\"")}"`;
+    }
+    return value;
+}
+
+/**
+ * 将数据库页面数组转换为 CSV(每个属性一列,格式与 Markdown 表格一致)
+ * @param pages - 数据库页面数组
+ * @param converter - 数据库转换器(关联标题需已通过 resolveRelationTitles 获取)
+ * @returns CSV 文本(带 UTF-8 BOM,便于在 Excel 中打开)
+ */
+export function databaseToCsv(pages: PageOrDatabase[], converter: DatabaseToMarkdown): string {
+    const columnNames = getDatabaseColumns(pages);
+    const lines = [columnNames.map(escapeCsvField).join(",")];
+
+    for (const page of pages) {
+        if (!isFullPage(page)) {
+            continue;
+        }
+        const cells = columnNames.map(name => escapeCsvField(converter.formatProperty(page.properties[name], true)));
+        lines.push(cells.join(","));
+    }
+
+    return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
+
+/**
+ * 将数据库转换为保留完整类型信息的 JSON 对象
+ * @param database - 数据库对象
+ * @param title - 数据库标题
+ * @param pages - 数据库页面数组
+ * @returns JSON 对象
+ */
+export function databaseToJson(database: PageOrDatabase, title: string, pages: PageOrDatabase[]): DatabaseJson {
+    const fullPages = pages.filter(isFullPage);
+
+    // 优先使用数据库定义的属性结构,否则从第一条记录推断
+    const schema: Record<string, string> = {};
+    const schemaSource = "properties" in database ? database.properties : fullPages[0]?.properties;
+    for (const [name, property] of Object.entries(schemaSource ?? {})) {
+        schema[name] = property.type;
+    }
+
+    return {
+        id: database.id,
+        title,
+        url: "url" in database ? database.url : null,
+        schema,
+        rows: fullPages.map(page => ({
+            id: page.id,
+            url: page.url,
+            created_time: page.created_time,
+            last_edited_time: page.last_edited_time,
+            properties: propertiesToValues(page.properties),
+        })),
+    };
+}
@@ -1,156 +1,345 @@
-import type { Client } from "@notionhq/client";
-import type {
-    DataSourceObjectResponse,
-    PageObjectResponse,
-} from "@notionhq/client/build/src/api-endpoints";
+import { isFullPage } from "@notionhq/client";
+import type NotionClient from "./NotionClient.js";
+import type { PageOrDatabase } from "./NotionClient.js";
+import { consoleLogger, Logger } from "./ExportEvents.js";
+import Messages, { defaultMessages } from "./Messages.js";
+import type { PageProperty } from "./PropertyValues.js";
+
+type DateValue = Extract<PageProperty, { type: "date" }>["date"];
+type RichTextValue = Extract<PageProperty, { type: "rich_text" }>["rich_text"];
+type FormulaValue = Extract<PageProperty, { type: "formula" }>["formula"];
+type RollupValue = Extract<PageProperty, { type: "rollup" }>["rollup"];
+// Rollup 数组中的元素(不含属性 ID 的属性值)
+type RollupItem = Extract<RollupValue, { type: "array" }>["array"][number];
+
+export interface DatabaseToMarkdownOptions {
+    databaseName?: string;
+    parentPageTitle?: string;           // 父页面标题(用于生成返回链接)
+    parentFileName?: string;            // 父页面的文件名,默认与标题相同
+    detailsDir?: string;                // 详情目录名称
+    pagesWithDetails?: Map<string, string>; // 有详情内容的页面 ID 到文件名的映射
+}
 
 /**
- * 数据库转 Markdown 表格转换器
+ * 获取数据库的列名称(标题列排在最前面,其他列保持原有顺序)
+ * @param pages - 数据库页面数组
+ * @returns 列名称数组,无法读取数据库结构时返回空数组
  */
-export default class DatabaseToMarkdown {
-    private notion: Client;
+export function getDatabaseColumns(pages: PageOrDatabase[]): string[] {
+    // 获取第一个完整页面来确定列
+    const firstFullPage = pages.find(p => isFullPage(p) && "properties" in p);
+    if (!firstFullPage || !("properties" in firstFullPage)) {
+        return [];
+    }
+
+    const properties = firstFullPage.properties;
+    const allColumnNames = Object.keys(properties);
+
+    const titleColumns = allColumnNames.filter(name => {
+        const prop = properties[name];
+        return prop && "type" in prop && prop.type === "title";
+    });
+    const otherColumns = allColumnNames.filter(name => {
+        const prop = properties[name];
+        return !prop || !("type" in prop) || prop.type !== "title";
+    });
+
+    return [...titleColumns, ...otherColumns];
+}
+
+/**
+ * 生成指向 Notion 页面的链接地址,导出完成后由 LinkRewriter 替换为相对路径
+ * @param pageId - 页面 ID
+ */
+function notionPageUrl(pageId: string): string {
+    return `https://www.notion.so/${pageId.replace(/-/g, "")}`;
+}
 
-    constructor(notion: Client) {
-        this.notion = notion;
+/**
+ * 用户名称,只有用户 ID 时为空字符串
+ * @param user - 完整或部分用户信息
+ */
+function userName(user: object): string {
+    return "name" in user && typeof user.name === "string" ? user.name : "";
+}
+
+/**
+ * 数据库及页面属性转 Markdown 转换器
+ */
+export default class DatabaseToMarkdown {
+    private notionClient: NotionClient;
+    private titles: Map<string, string> = new Map();
+    private pendingTitles: Map<string, Promise<string>> = new Map();
+    private logger: Logger;
+    private messages: Messages;
+
+    constructor(notionClient: NotionClient, logger: Logger = consoleLogger, messages: Messages = defaultMessages) {
+        this.notionClient = notionClient;
+        this.logger = logger;
+        this.messages = messages;
     }
 
     /**
-     * 将数据库转换为 Markdown 表格
-     * @param dataSource - 数据源对象
+     * 将数据库页面数组转换为 Markdown 表格
      * @param pages - 数据库中的页面列表
+     * @param options - 表格选项
      * @returns Markdown 表格字符串
      */
-    public databaseToMarkdownTable(
-        dataSource: DataSourceObjectResponse,
-        pages: PageObjectResponse[]
-    ): string {
+    public async databaseToMarkdownTable(pages: PageOrDatabase[], options: DatabaseToMarkdownOptions = {}): Promise<string> {
+        const databaseName = options.databaseName || "Database";
+        const { parentPageTitle, parentFileName, detailsDir, pagesWithDetails } = options;
+
+        // 构建头部
+        let header = `# ${databaseName}\n\n`;
+
+        // 添加返回父页面的链接
+        if (parentPageTitle) {
+            header += `> ${this.messages.t("content.parentPage")}: [${parentPageTitle}](../${encodeURIComponent(parentFileName ?? parentPageTitle)}.md)\n\n`;
+        }
+
         if (pages.length === 0) {
-            return "*(数据库为空)*\n";
+            return header + `${this.messages.t("content.emptyDatabase")}\n`;
         }
 
-        // 提取数据库属性(列)
-        const properties = dataSource.properties;
-        const propertyKeys = Object.keys(properties);
+        // 提取所有属性名称作为列标题，将 title 类型的属性排在最前面
+        const columnNames = getDatabaseColumns(pages);
+        if (columnNames.length === 0) {
+            return header + `${this.messages.t("content.unreadableDatabase")}\n`;
+        }
+
+        await this.resolveRelationTitles(pages);
+
+        // 判断是否需要添加详情链接列
+        const hasDetailsColumn = detailsDir && pagesWithDetails && pagesWithDetails.size > 0;
 
-        // 构建表头
-        const headers = propertyKeys.map(key => this.escapeMarkdown(key));
-        const headerRow = `| ${headers.join(" | ")} |`;
-        const separatorRow = `| ${headers.map(() => "---").join(" | ")} |`;
+        // 构建表格标题行
+        const allColumns = hasDetailsColumn ? [...columnNames, this.messages.t("content.details")] : columnNames;
+        const headerRow = `| ${allColumns.map(name => this.escapeMarkdown(name)).join(" | ")} |`;
+        const separatorRow = `| ${allColumns.map(() => "---").join(" | ")} |`;
 
         // 构建数据行
-        const dataRows = pages.map(page => {
-            const cells = propertyKeys.map(key => {
-                const property = page.properties[key];
-                return this.formatProperty(property);
-            });
-            return `| ${cells.join(" | ")} |`;
-        });
-
-        // 组合表格
-        const table = [
-            headerRow,
-            separatorRow,
-            ...dataRows,
-        ].join("\n");
-
-        return `${table}\n`;
+        const dataRows: string[] = [];
+        for (const page of pages) {
+            if (!isFullPage(page)) {
+                continue;
+            }
+
+            const cells = columnNames.map(colName => this.formatProperty(page.properties[colName]));
+
+            // 添加详情链接
+            if (hasDetailsColumn) {
+                const fileName = pagesWithDetails.get(page.id);
+                if (fileName !== undefined) {
+                    cells.push(`[📄 ${this.messages.t("content.details")}](${encodeURIComponent(detailsDir)}/${encodeURIComponent(fileName)}.md)`);
+                } else {
+                    cells.push("-");
+                }
+            }
+
+            dataRows.push(`| ${cells.join(" | ")} |`);
+        }
+
+        // 组合成完整的 Markdown 表格
+        return `${header}${headerRow}\n${separatorRow}\n${dataRows.join("\n")}\n`;
+    }
+
+    /**
+     * 将页面属性转换为 Markdown 格式(用于内容为空的页面)
+     * @param page - 页面对象
+     * @returns Markdown 字符串
+     */
+    public async propertiesToMarkdown(page: PageOrDatabase): Promise<string> {
+        if (!isFullPage(page)) {
+            return "";
+        }
+
+        await this.resolveRelationTitles([page]);
+
+        const lines: string[] = [];
+        let hasNonTitleProperties = false;
+
+        for (const [propertyName, property] of Object.entries(page.properties)) {
+            // 跳过标题属性(已经作为文件名)
+            if (property.type === "title") {
+                continue;
+            }
+
+            hasNonTitleProperties = true;
+            const value = this.formatProperty(property);
+            if (value) {
+                lines.push(`**${propertyName}**: ${value}`);
+            }
+        }
+
+        // 如果只有标题属性没有其他属性,返回一个占位符
+        if (!hasNonTitleProperties) {
+            return `${this.messages.t("content.titleOnly")}\n\n`;
+        }
+
+        return lines.length > 0 ? lines.join("\n") + "\n\n" : "";
+    }
+
+    /**
+     * 记录已知的页面标题,避免为关联属性重复请求
+     * @param pages - 页面数组
+     */
+    public rememberTitles(pages: PageOrDatabase[]): void {
+        for (const page of pages) {
+            if (isFullPage(page)) {
+                this.titles.set(page.id, this.notionClient.getPageTitle(page));
+            }
+        }
+    }
+
+    /**
+     * 获取页面中所有关联属性指向的页面标题
+     * @param pages - 页面数组
+     */
+    public async resolveRelationTitles(pages: PageOrDatabase[]): Promise<void> {
+        this.rememberTitles(pages);
+
+        const pending: Promise<void>[] = [];
+        for (const page of pages) {
+            if (!isFullPage(page)) {
+                continue;
+            }
+            for (const property of Object.values(page.properties)) {
+                if (property.type !== "relation") {
+                    continue;
+                }
+                for (const relation of property.relation) {
+                    pending.push(this.fetchTitle(relation.id));
+                }
+            }
+        }
+        await Promise.all(pending);
     }
 
     /**
      * 格式化属性值为 Markdown 单元格内容
+     * @param property - 页面属性
+     * @param plain - 是否输出纯文本(不含 Markdown 格式和转义)
      */
-    private formatProperty(property: any): string {
+    public formatProperty(property: PageProperty | RollupItem | undefined, plain: boolean = false): string {
         if (!property) return "";
 
+        const text = (value: string) => (plain ? value : this.escapeMarkdown(value));
+
         try {
             switch (property.type) {
                 case "title":
-                    return this.formatRichText(property.title);
+                    return this.formatRichText(property.title, plain);
 
                 case "rich_text":
-                    return this.formatRichText(property.rich_text);
+                    return this.formatRichText(property.rich_text, plain);
 
                 case "number":
                     return property.number !== null ? String(property.number) : "";
 
                 case "select":
-                    return property.select?.name || "";
+                    return text(property.select?.name || "");
 
                 case "multi_select":
-                    return property.multi_select?.map((s: any) => s.name).join(", ") || "";
+                    return text(property.multi_select?.map(option => option.name).join(", ") || "");
 
                 case "date":
-                    if (!property.date) return "";
-                    if (property.date.end) {
-                        return `${property.date.start} → ${property.date.end}`;
-                    }
-                    return property.date.start;
+                    return this.formatDate(property.date);
 
                 case "checkbox":
                     return property.checkbox ? "☑" : "☐";
 
                 case "url":
-                    return property.url ? `[链接](${property.url})` : "";
+                    if (!property.url) return "";
+                    return plain ? property.url : `[${this.messages.t("content.link")}](${property.url})`;
 
                 case "email":
-                    return property.email || "";
+                    return text(property.email || "");
 
                 case "phone_number":
-                    return property.phone_number || "";
+                    return text(property.phone_number || "");
 
                 case "status":
-                    return property.status?.name || "";
+                    return text(property.status?.name || "");
 
                 case "people":
-                    return property.people?.map((p: any) => p.name || "Unknown").join(", ") || "";
+                    return text(property.people?.map(person => userName(person) || "Unknown").join(", ") || "");
 
                 case "files":
-                    return property.files?.map((f: any) => {
+                    return property.files?.map(f => {
                         const name = f.name || "file";
-                        if (f.type === "external") {
-                            return `[${name}](${f.external.url})`;
-                        } else if (f.type === "file") {
-                            return `[${name}](${f.file.url})`;
+                        const url = f.type === "external" ? f.external?.url : f.file?.url;
+                        if (plain || !url) {
+                            return plain && url ? url : text(name);
                         }
-                        return name;
+                        return `[${text(name)}](${url})`;
                     }).join(", ") || "";
 
                 case "created_time":
                     return property.created_time || "";
 
                 case "created_by":
-                    return property.created_by?.name || "";
+                    return text(userName(property.created_by));
 
                 case "last_edited_time":
                     return property.last_edited_time || "";
 
                 case "last_edited_by":
-                    return property.last_edited_by?.name || "";
+                    return text(userName(property.last_edited_by));
 
                 case "formula":
-                    return this.formatFormula(property.formula);
+                    return text(this.formatFormula(property.formula));
 
                 case "relation":
-                    return property.relation?.length > 0 ? `${property.relation.length} 项` : "";
+                    return this.formatRelation(property.relation, plain);
 
                 case "rollup":
-                    return this.formatRollup(property.rollup);
+                    return this.formatRollup(property.rollup, plain);
+
+                case "unique_id":
+                    if (property.unique_id?.number === null || property.unique_id?.number === undefined) return "";
+                    return property.unique_id.prefix
+                        ? `${property.unique_id.prefix}-${property.unique_id.number}`
+                        : String(property.unique_id.number);
 
                 default:
                     return "";
             }
         } catch (error) {
-            console.error(`格式化属性失败 (${property.type}):`, error);
+            this.logger.error(this.messages.t("export.propertyFailed", { type: property.type, error: error instanceof Error ? error.message : String(error) }));
             return "";
         }
     }
 
+    /**
+     * 获取尚未缓存的页面标题,无法访问时记为 "Untitled"
+     * @param pageId - 页面 ID
+     */
+    private async fetchTitle(pageId: string): Promise<void> {
+        if (this.titles.has(pageId)) {
+            return;
+        }
+
+        let pending = this.pendingTitles.get(pageId);
+        if (!pending) {
+            pending = this.notionClient
+                .getPage(pageId)
+                .then(page => this.notionClient.getPageTitle(page))
+                .catch(() => "Untitled");
+            this.pendingTitles.set(pageId, pending);
+        }
+        this.titles.set(pageId, await pending);
+    }
+
     /**
      * 格式化富文本
      */
-    private formatRichText(richText: any[]): string {
+    private formatRichText(richText: RichTextValue, plain: boolean = false): string {
         if (!richText || richText.length === 0) return "";
 
+        if (plain) {
+            return richText.map(text => text.plain_text || "").join("");
+        }
+
         return richText
             .map(text => {
                 if (!text.plain_text) return "";
@@ -175,10 +364,36 @@ export default class DatabaseToMarkdown {
             .join("");
     }
 
+    /**
+     * 格式化关联属性为关联页面的标题链接
+     */
+    private formatRelation(relation: { id: string }[], plain: boolean): string {
+        if (!relation || relation.length === 0) return "";
+
+        return relation
+            .map(({ id }) => {
+                // 标题在生成表格前已通过 resolveRelationTitles 获取
+                const title = this.titles.get(id) ?? "Untitled";
+                return plain ? title : `[${this.escapeMarkdown(title)}](${notionPageUrl(id)})`;
+            })
+            .join(", ");
+    }
+
+    /**
+     * 格式化日期
+     */
+    private formatDate(date: DateValue): string {
+        if (!date) return "";
+        if (date.end) {
+            return `${date.start} → ${date.end}`;
+        }
+        return date.start;
+    }
+
     /**
      * 格式化公式结果
      */
-    private formatFormula(formula: any): string {
+    private formatFormula(formula: FormulaValue): string {
         if (!formula) return "";
 
         switch (formula.type) {
@@ -189,11 +404,7 @@ export default class DatabaseToMarkdown {
             case "boolean":
                 return formula.boolean ? "Yes" : "No";
             case "date":
-                if (!formula.date) return "";
-                if (formula.date.end) {
-                    return `${formula.date.start} → ${formula.date.end}`;
-                }
-                return formula.date.start;
+                return this.formatDate(formula.date);
             default:
                 return "";
         }
@@ -202,20 +413,19 @@ export default class DatabaseToMarkdown {
     /**
      * 格式化 Rollup 结果
      */
-    private formatRollup(rollup: any): string {
+    private formatRollup(rollup: RollupValue, plain: boolean): string {
         if (!rollup) return "";
 
         switch (rollup.type) {
             case "number":
                 return rollup.number !== null ? String(rollup.number) : "";
             case "date":
-                if (!rollup.date) return "";
-                if (rollup.date.end) {
-                    return `${rollup.date.start} → ${rollup.date.end}`;
-                }
-                return rollup.date.start;
+                return this.formatDate(rollup.date);
             case "array":
-                return rollup.array?.length > 0 ? `${rollup.array.length} 项` : "";
+                return rollup.array
+                    ?.map(item => this.formatProperty(item, plain))
+                    .filter(Boolean)
+                    .join(", ") || "";
             default:
                 return "";
         }
@@ -0,0 +1,165 @@
+import { appendFile, readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import type { ManifestEntry } from "./ExportManifest.js";
+import type { DownloadedFile } from "./FileDownloader.js";
+import { consoleLogger, Logger } from "./ExportEvents.js";
+import Messages, { defaultMessages } from "./Messages.js";
+
+type JournalRecord =
+    | { type: "header"; rootPageId: string; startedAt: string }
+    | { type: "entry"; entry: ManifestEntry }
+    | { type: "attachment"; key: string; file: DownloadedFile };
+
+/**
+ * 导出断点日志 - 记录已完成的页面、数据库和附件,用于中断后继续导出
+ */
+export default class ExportCheckpoint {
+    public static readonly FILE_NAME = ".notion-pull-checkpoint.jsonl";
+
+    private filePath: string;
+    private completed: Map<string, ManifestEntry> = new Map();
+    private downloaded: Map<string, DownloadedFile> = new Map();
+    private queue: Promise<void> = Promise.resolve();
+    private logger: Logger;
+    private messages: Messages;
+
+    private constructor(filePath: string, logger: Logger, messages: Messages) {
+        this.filePath = filePath;
+        this.logger = logger;
+        this.messages = messages;
+    }
+
+    /**
+     * 打开断点日志
+     * @param outputDir - 输出目录
+     * @param rootPageId - 本次导出的根页面 ID
+     * @param resume - 是否从上一次中断处继续;否则丢弃已有日志
+     * @param logger - 日志
+     * @param messages - 日志使用的消息目录
+     * @returns 断点日志
+     */
+    public static async open(
+        outputDir: string,
+        rootPageId: string,
+        resume: boolean,
+        logger: Logger = consoleLogger,
+        messages: Messages = defaultMessages
+    ): Promise<ExportCheckpoint> {
+        const checkpoint = new ExportCheckpoint(join(outputDir, ExportCheckpoint.FILE_NAME), logger, messages);
+
+        if (resume && await checkpoint.load(rootPageId)) {
+            return checkpoint;
+        }
+
+        const header: JournalRecord = { type: "header", rootPageId, startedAt: new Date().toISOString() };
+        await writeFile(checkpoint.filePath, JSON.stringify(header) + "\n", "utf-8");
+        return checkpoint;
+    }
+
+    /**
+     * 获取已完成的页面或数据库
+     * @param id - 页面或数据库 ID
+     */
+    public getCompleted(id: string): ManifestEntry | undefined {
+        return this.completed.get(id);
+    }
+
+    /**
+     * 获取所有已完成的条目
+     */
+    public entries(): ManifestEntry[] {
+        return Array.from(this.completed.values());
+    }
+
+    /**
+     * 获取所有已下载的附件
+     */
+    public attachments(): Map<string, DownloadedFile> {
+        return this.downloaded;
+    }
+
+    /**
+     * 记录已完成的页面或数据库
+     * @param entry - 清单条目
+     */
+    public record(entry: ManifestEntry): void {
+        this.completed.set(entry.id, entry);
+        this.append({ type: "entry", entry });
+    }
+
+    /**
+     * 记录已下载的附件
+     * @param key - 附件缓存键
+     * @param file - 下载的文件信息
+     */
+    public recordAttachment(key: string, file: DownloadedFile): void {
+        if (this.downloaded.has(key)) {
+            return;
+        }
+        this.downloaded.set(key, file);
+        this.append({ type: "attachment", key, file });
+    }
+
+    /**
+     * 等待所有记录写入磁盘
+     */
+    public async flush(): Promise<void> {
+        await this.queue;
+    }
+
+    /**
+     * 导出完成后删除断点日志
+     */
+    public async remove(): Promise<void> {
+        await this.flush();
+        await rm(this.filePath, { force: true });
+    }
+
+    /**
+     * 读取已有的断点日志
+     * @param rootPageId - 本次导出的根页面 ID
+     * @returns 日志存在且属于同一根页面时返回 true
+     */
+    private async load(rootPageId: string): Promise<boolean> {
+        let content: string;
+        try {
+            content = await readFile(this.filePath, "utf-8");
+        } catch {
+            return false;
+        }
+
+        const lines = content.split("\n").filter(line => line.trim() !== "");
+        for (const [index, line] of lines.entries()) {
+            let record: JournalRecord;
+            try {
+                record = JSON.parse(line) as JournalRecord;
+            } catch {
+                // 进程被强制结束时最后一行可能不完整
+                continue;
+            }
+
+            if (index === 0) {
+                if (record.type !== "header" || record.rootPageId !== rootPageId) {
+                    return false;
+                }
+            } else if (record.type === "entry") {
+                this.completed.set(record.entry.id, record.entry);
+            } else if (record.type === "attachment") {
+                this.downloaded.set(record.key, record.file);
+            }
+        }
+
+        return lines.length > 0;
+    }
+
+    /**
+     * 按顺序追加一条记录
+     */
+    private append(record: JournalRecord): void {
+        this.queue = this.queue
+            .then(() => appendFile(this.filePath, JSON.stringify(record) + "\n", "utf-8"))
+            .catch(error => {
+                this.logger.error(this.messages.t("export.checkpointFailed", { error: error instanceof Error ? error.message : String(error) }));
+            });
+    }
+}
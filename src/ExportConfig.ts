@@ -0,0 +1,336 @@
+import { access, readFile } from "fs/promises";
+import { dirname, extname, isAbsolute, join, relative, resolve, sep } from "path";
+import { parse } from "yaml";
+import { EXTERNAL_LINK_MODES, ExternalLinkMode, normalizeNotionId } from "./LinkRewriter.js";
+import { DATABASE_FORMATS, DatabaseFormat } from "./DatabaseSerializer.js";
+import { NAMING_STRATEGIES, NamingStrategy } from "./FileNamer.js";
+import { OUTPUT_FLAVORS, OutputFlavor } from "./ObsidianMarkdown.js";
+import { FAIL_ON_POLICIES, FailOnPolicy } from "./ExportReport.js";
+import type { DatabaseQueryRule } from "./DatabaseQuery.js";
+import { BUILTIN_TRANSFORMER_NAMES, BuiltinTransformerName } from "./BlockTransformers.js";
+import Messages, { defaultMessages, isMessageKey, Locale, LOCALES, MessageKey, MessageOverrides } from "./Messages.js";
+
+/**
+ * 依次查找的配置文件名
+ */
+export const CONFIG_FILE_NAMES = ["notion-pull.config.json", "notion-pull.config.yaml", "notion-pull.config.yml"];
+
+/**
+ * 未指定输出目录时的默认输出目录(相对当前目录)
+ */
+export const DEFAULT_OUTPUT_DIR = "./notion-export";
+
+/**
+ * 导出设置,字段名与 export 命令的选项一致
+ */
+export interface ProfileSettings {
+    output?: string;                    // 输出目录(相对配置文件所在目录)
+    downloadMedia?: boolean;
+    attachmentsDir?: string;
+    incremental?: boolean;
+    concurrency?: number;
+    rateLimit?: number;
+    maxRetries?: number;
+    externalLinks?: ExternalLinkMode;
+    frontMatter?: boolean;
+    databaseFormat?: DatabaseFormat[];
+    naming?: NamingStrategy;
+    flavor?: OutputFlavor;
+    failOn?: FailOnPolicy;
+    databases?: DatabaseQueryRule[];    // 数据库的筛选和排序规则
+    maxDepth?: number;
+    include?: string[];
+    exclude?: string[];
+    transformers?: BuiltinTransformerName[];    // 内置块转换器
+    prune?: boolean;
+    git?: boolean;
+    gitPerPage?: boolean;
+    lang?: Locale;
+    messages?: MessageOverrides;        // 覆盖的消息(消息键到文字)
+}
+
+export interface ProfileRoot {
+    id: string;
+    output?: string;    // 该根页面单独的输出目录
+}
+
+export interface ExportProfile extends ProfileSettings {
+    roots: (string | ProfileRoot)[];
+}
+
+export interface ExportConfig {
+    defaults?: ProfileSettings;             // 所有配置集共用的设置
+    profiles: Record<string, ExportProfile>;
+}
+
+/**
+ * 配置集中单个根页面的导出任务
+ */
+export interface ProfileExport {
+    profile: string;
+    rootPageId: string;
+    settings: ProfileSettings;  // 合并默认设置后的设置,output 已解析为绝对路径
+}
+
+type Validator = (value: unknown) => boolean;
+
+const isBoolean: Validator = value => typeof value === "boolean";
+const isString: Validator = value => typeof value === "string" && value.trim() !== "";
+const isPositiveNumber: Validator = value => typeof value === "number" && Number.isFinite(value) && value > 0;
+const isNonNegativeInteger: Validator = value => typeof value === "number" && Number.isInteger(value) && value >= 0;
+const isOneOf = (choices: readonly string[]): Validator => value => typeof value === "string" && choices.includes(value);
+const isStringArray: Validator = value => Array.isArray(value) && value.every(isString);
+const isDatabaseRules: Validator = value => Array.isArray(value) && value.every(rule =>
+    isRecord(rule)
+    && isString(rule.database)
+    && (rule.filter === undefined || isString(rule.filter) || isRecord(rule.filter))
+    && (rule.sort === undefined || isString(rule.sort) || (Array.isArray(rule.sort) && rule.sort.every(isRecord)))
+);
+const isMessageOverrides: Validator = value => isRecord(value)
+    && Object.entries(value).every(([key, text]) => isMessageKey(key) && typeof text === "string");
+
+// 每项设置的校验函数,以及描述期望值的消息键和可选值
+const SETTING_VALIDATORS: Record<keyof ProfileSettings, [Validator, MessageKey, (readonly string[])?]> = {
+    output: [isString, "config.expectString"],
+    downloadMedia: [isBoolean, "config.expectBoolean"],
+    attachmentsDir: [isString, "config.expectString"],
+    incremental: [isBoolean, "config.expectBoolean"],
+    concurrency: [isPositiveNumber, "config.expectPositiveNumber"],
+    rateLimit: [isPositiveNumber, "config.expectPositiveNumber"],
+    maxRetries: [isNonNegativeInteger, "config.expectNonNegativeInteger"],
+    externalLinks: [isOneOf(EXTERNAL_LINK_MODES), "config.expectOneOf", EXTERNAL_LINK_MODES],
+    frontMatter: [isBoolean, "config.expectBoolean"],
+    databaseFormat: [
+        value => Array.isArray(value) && value.every(isOneOf(DATABASE_FORMATS)),
+        "config.expectFormats",
+        DATABASE_FORMATS,
+    ],
+    naming: [isOneOf(NAMING_STRATEGIES), "config.expectOneOf", NAMING_STRATEGIES],
+    flavor: [isOneOf(OUTPUT_FLAVORS), "config.expectOneOf", OUTPUT_FLAVORS],
+    failOn: [isOneOf(FAIL_ON_POLICIES), "config.expectOneOf", FAIL_ON_POLICIES],
+    databases: [isDatabaseRules, "config.expectDatabaseRules"],
+    maxDepth: [isNonNegativeInteger, "config.expectNonNegativeInteger"],
+    include: [isStringArray, "config.expectStringArray"],
+    exclude: [isStringArray, "config.expectStringArray"],
+    transformers: [
+        value => Array.isArray(value) && value.every(isOneOf(BUILTIN_TRANSFORMER_NAMES)),
+        "config.expectChoices",
+        BUILTIN_TRANSFORMER_NAMES,
+    ],
+    prune: [isBoolean, "config.expectBoolean"],
+    git: [isBoolean, "config.expectBoolean"],
+    gitPerPage: [isBoolean, "config.expectBoolean"],
+    lang: [isOneOf(LOCALES), "config.expectOneOf", LOCALES],
+    messages: [isMessageOverrides, "config.expectMessages"],
+};
+
+/**
+ * 在目录中查找配置文件
+ * @param dir - 查找的目录
+ * @returns 配置文件路径,不存在时返回 undefined
+ */
+export async function findConfigFile(dir: string): Promise<string | undefined> {
+    for (const name of CONFIG_FILE_NAMES) {
+        const path = join(dir, name);
+        try {
+            await access(path);
+            return path;
+        } catch {
+            // 继续查找下一个文件名
+        }
+    }
+    return undefined;
+}
+
+/**
+ * 读取并校验配置文件(.json 或 .yaml/.yml),相对路径按配置文件所在目录解析
+ * @param path - 配置文件路径
+ * @param messages - 错误信息使用的消息目录
+ * @returns 配置
+ */
+export async function loadConfig(path: string, messages: Messages = defaultMessages): Promise<ExportConfig> {
+    const content = await readFile(path, "utf-8");
+    const data: unknown = extname(path) === ".json" ? JSON.parse(content) : parse(content);
+
+    if (!isRecord(data) || !isRecord(data.profiles) || Object.keys(data.profiles).length === 0) {
+        throw new Error(messages.t("config.missingProfiles", { path }));
+    }
+
+    const baseDir = dirname(resolve(path));
+    const config: ExportConfig = { profiles: {} };
+
+    if (data.defaults !== undefined) {
+        config.defaults = validateSettings(data.defaults, "defaults", baseDir, messages);
+    }
+
+    for (const [name, value] of Object.entries(data.profiles)) {
+        const context = `profiles.${name}`;
+        if (!isRecord(value)) {
+            throw new Error(messages.t("config.notObject", { context }));
+        }
+        const { roots, ...settings } = value;
+        config.profiles[name] = {
+            ...validateSettings(settings, context, baseDir, messages),
+            roots: validateRoots(roots, context, baseDir, messages),
+        };
+    }
+
+    return config;
+}
+
+/**
+ * 展开配置集为每个根页面的导出任务
+ * 配置集有多个根页面时,未单独指定输出目录的根页面导出到 输出目录/<页面 ID>,避免共用清单
+ * @param config - 配置
+ * @param name - 配置集名称
+ * @param outputOverride - 代替配置中输出目录的目录(如命令行的 --output)
+ * @param messages - 错误信息使用的消息目录
+ * @returns 导出任务,output 均已设置
+ */
+export function resolveProfile(
+    config: ExportConfig,
+    name: string,
+    outputOverride?: string,
+    messages: Messages = defaultMessages
+): ProfileExport[] {
+    const profile = config.profiles[name];
+    if (!profile) {
+        throw new Error(messages.t("config.unknownProfile", { name, profiles: Object.keys(config.profiles).join(", ") }));
+    }
+
+    const { roots, ...settings } = profile;
+    const merged: ProfileSettings = { ...config.defaults, ...settings };
+    if (config.defaults?.databases && settings.databases) {
+        // 数据库规则与默认规则合并,配置集中的规则优先
+        merged.databases = [...config.defaults.databases, ...settings.databases];
+    }
+    if (config.defaults?.messages && settings.messages) {
+        // 覆盖的消息按键合并,配置集中的文字优先
+        merged.messages = { ...config.defaults.messages, ...settings.messages };
+    }
+
+    const profileOutput = resolve(outputOverride ?? merged.output ?? DEFAULT_OUTPUT_DIR);
+    return roots.map(root => {
+        const { id, output } = typeof root === "string" ? { id: root, output: undefined } : root;
+        let rootOutput = outputOverride ? undefined : output;
+        if (!rootOutput) {
+            rootOutput = roots.length > 1 ? join(profileOutput, normalizeNotionId(id)) : profileOutput;
+        }
+        return {
+            profile: name,
+            rootPageId: id,
+            settings: { ...merged, output: rootOutput },
+        };
+    });
+}
+
+/**
+ * 展开多个配置集的导出任务
+ * 每个导出目录只保存一个根页面的清单,输出目录相同或互相包含的任务会互相覆盖和清理文件,因此报错
+ * @param config - 配置
+ * @param names - 配置集名称
+ * @param outputOverride - 代替配置中输出目录的目录(如命令行的 --output),有多个配置集时各自使用其中以配置集命名的子目录
+ * @param messages - 错误信息使用的消息目录
+ * @returns 导出任务
+ */
+export function resolveProfiles(
+    config: ExportConfig,
+    names: string[],
+    outputOverride?: string,
+    messages: Messages = defaultMessages
+): ProfileExport[] {
+    const jobs = names.flatMap(name =>
+        resolveProfile(config, name, outputOverride && names.length > 1 ? join(outputOverride, name) : outputOverride, messages)
+    );
+    for (const [index, job] of jobs.entries()) {
+        for (const other of jobs.slice(0, index)) {
+            if (isSameOrInside(job.settings.output!, other.settings.output!) || isSameOrInside(other.settings.output!, job.settings.output!)) {
+                throw new Error(messages.t("config.overlappingOutput", {
+                    profile: job.profile,
+                    id: job.rootPageId,
+                    otherProfile: other.profile,
+                    otherId: other.rootPageId,
+                    output: job.settings.output!,
+                    otherOutput: other.settings.output!,
+                }));
+            }
+        }
+    }
+    return jobs;
+}
+
+/**
+ * 判断目录是否与另一目录相同或位于其中
+ */
+function isSameOrInside(path: string, dir: string): boolean {
+    const rel = relative(dir, path);
+    return rel === "" || (rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+}
+
+/**
+ * 校验导出设置
+ * @param value - 配置中的设置对象
+ * @param context - 用于错误信息的位置
+ * @param baseDir - 配置文件所在目录
+ * @param messages - 错误信息使用的消息目录
+ */
+function validateSettings(value: unknown, context: string, baseDir: string, messages: Messages): ProfileSettings {
+    if (!isRecord(value)) {
+        throw new Error(messages.t("config.notObject", { context }));
+    }
+
+    const settings: Record<string, unknown> = {};
+    for (const [key, raw] of Object.entries(value)) {
+        const rule = SETTING_VALIDATORS[key as keyof ProfileSettings];
+        if (!rule) {
+            throw new Error(messages.t("config.unknownSetting", { context, key, settings: Object.keys(SETTING_VALIDATORS).join(", ") }));
+        }
+
+        // 数据库格式与命令行一样支持逗号分隔的字符串
+        const setting = key === "databaseFormat" && typeof raw === "string"
+            ? raw.split(",").map(format => format.trim().toLowerCase()).filter(Boolean)
+            : raw;
+
+        const [validate, expected, choices] = rule;
+        if (!validate(setting)) {
+            const description = messages.t(expected, { choices: choices?.join(", ") ?? "" });
+            throw new Error(messages.t("config.invalidSetting", { context, key, expected: description }));
+        }
+        settings[key] = key === "output" ? resolve(baseDir, setting as string) : setting;
+    }
+
+    return settings as ProfileSettings;
+}
+
+/**
+ * 校验根页面列表
+ * @param value - 配置中的 roots
+ * @param context - 用于错误信息的位置
+ * @param baseDir - 配置文件所在目录
+ * @param messages - 错误信息使用的消息目录
+ */
+function validateRoots(value: unknown, context: string, baseDir: string, messages: Messages): (string | ProfileRoot)[] {
+    if (!Array.isArray(value) || value.length === 0) {
+        throw new Error(messages.t("config.invalidRoots", { context }));
+    }
+
+    return value.map((root, index) => {
+        if (isString(root)) {
+            return root as string;
+        }
+        if (isRecord(root) && isString(root.id) && (root.output === undefined || isString(root.output))) {
+            return {
+                id: root.id as string,
+                output: root.output === undefined ? undefined : resolve(baseDir, root.output as string),
+            };
+        }
+        throw new Error(messages.t("config.invalidRoot", { context, index }));
+    });
+}
+
+/**
+ * 判断值是否为普通对象
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,156 @@
+import type { ReportError } from "./ExportReport.js";
+
+export type LogLevel = "error" | "warn" | "info" | "verbose" | "debug";
+
+export const LOG_LEVELS: LogLevel[] = ["error", "warn", "info", "verbose", "debug"];
+
+export type LogFormat = "text" | "json";
+
+export const LOG_FORMATS: LogFormat[] = ["text", "json"];
+
+/**
+ * 日志的附加字段,JSON 格式的日志中与消息一起输出
+ */
+export type LogFields = Record<string, string | number | boolean | undefined>;
+
+/**
+ * 日志接口,导出器和客户端的所有输出都经过该接口
+ * verbose 和 debug 为可选方法,未实现时不输出对应级别的日志
+ */
+export interface Logger {
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+    verbose?(message: string, fields?: LogFields): void;   // 详细信息,如每个写入的文件及耗时
+    debug?(message: string, fields?: LogFields): void;     // 调试信息,如每个 API 请求及耗时
+}
+
+export interface ConsoleLoggerOptions {
+    level?: LogLevel;       // 输出的最低级别,默认为 info
+    format?: LogFormat;     // text 为可读文本,json 为每行一个 JSON 对象
+}
+
+/**
+ * 创建输出到控制台的日志:info 及以下级别输出到标准输出,warn 和 error 输出到标准错误
+ * JSON 格式的每一行包含时间、级别、去掉缩进的消息和附加字段,不输出空行
+ * @param options - 日志级别和格式
+ * @returns 日志
+ */
+export function createConsoleLogger(options: ConsoleLoggerOptions = {}): Logger {
+    const { level = "info", format = "text" } = options;
+    const threshold = LOG_LEVELS.indexOf(level);
+
+    const write = (messageLevel: LogLevel) => (message: string, fields?: LogFields) => {
+        if (LOG_LEVELS.indexOf(messageLevel) > threshold) {
+            return;
+        }
+        const toStderr = messageLevel === "error" || messageLevel === "warn";
+        if (format === "text") {
+            (toStderr ? console.error : console.log)(message);
+            return;
+        }
+
+        const text = message.trim();
+        if (text) {
+            const line = JSON.stringify({ time: new Date().toISOString(), level: messageLevel, message: text, ...fields });
+            (toStderr ? process.stderr : process.stdout).write(`${line}\n`);
+        }
+    };
+
+    return {
+        info: write("info"),
+        warn: write("warn"),
+        error: write("error"),
+        verbose: write("verbose"),
+        debug: write("debug"),
+    };
+}
+
+/**
+ * 输出到控制台的日志(命令行默认使用),不输出 verbose 和 debug 级别
+ */
+export const consoleLogger: Logger = createConsoleLogger();
+
+/**
+ * 不输出任何内容的日志(嵌入其他程序时只通过事件获取进度)
+ */
+export const silentLogger: Logger = {
+    info: () => {},
+    warn: () => {},
+    error: () => {},
+};
+
+export interface PageStartedEvent {
+    id: string;
+    type: "page" | "database";
+    title: string;
+    depth: number;          // 递归深度,根页面为 0
+}
+
+export interface PageWrittenEvent {
+    id: string;
+    type: "page" | "database";
+    title: string;
+    outputPath?: string;    // 相对输出目录的路径,页面没有内容时未写入文件
+    durationMs: number;
+}
+
+export interface PageSkippedEvent {
+    id: string;
+    type: "page" | "database";
+    title: string;
+    reason: "unchanged" | "resumed" | "filtered";
+}
+
+export interface DatabaseRowsFetchedEvent {
+    databaseId: string;
+    title: string;
+    rowCount: number;
+}
+
+export interface MediaDownloadedEvent {
+    pageId: string;
+    url: string;
+    localPath: string;      // 相对输出目录的路径
+}
+
+export interface PagesDiscoveredEvent {
+    parentId?: string;      // 父页面或数据库 ID,根页面和工作区的顶层页面为空
+    count: number;          // 发现的页面、数据库和数据库条目数量(包括按规则跳过的)
+}
+
+export interface RequestFinishedEvent {
+    method: string;
+    url: string;
+    status?: number;        // 网络错误时为空
+    durationMs: number;     // 单次请求的耗时,不含限速等待;重试的请求分别计算
+}
+
+export interface DownloadFinishedEvent {
+    url: string;
+    bytes: number;
+    durationMs: number;
+}
+
+export interface ExportErrorEvent {
+    id: string;             // 页面或数据库 ID,下载失败时为引用文件的页面 ID
+    type: "page" | "database" | "download";
+    title?: string;
+    url?: string;           // 下载失败的文件 URL
+    error: ReportError;
+}
+
+/**
+ * 导出器发出的事件及其参数
+ */
+export interface ExportEventMap {
+    pageStarted: [PageStartedEvent];
+    pageWritten: [PageWrittenEvent];
+    pageSkipped: [PageSkippedEvent];
+    databaseRowsFetched: [DatabaseRowsFetchedEvent];
+    mediaDownloaded: [MediaDownloadedEvent];
+    pagesDiscovered: [PagesDiscoveredEvent];
+    requestFinished: [RequestFinishedEvent];
+    downloadFinished: [DownloadFinishedEvent];
+    error: [ExportErrorEvent];
+}
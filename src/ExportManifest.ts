@@ -0,0 +1,342 @@
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import type { ChildPageInfo } from "./NotionClient.js";
+import { normalizeNotionId } from "./LinkRewriter.js";
+
+export interface ManifestEntry {
+    id: string;
+    type: "page" | "database";
+    title: string;
+    lastEditedTime: string;
+    basePath?: string;          // 相对输出目录、不含扩展名的路径,子页面目录与其同名
+    outputPath?: string;        // 相对输出目录的文件路径(未写入文件时为空)
+    additionalFiles?: string[]; // 其他导出文件(如数据库的 CSV/JSON)
+    databaseId?: string;        // 无详情的数据库条目所属的数据库
+    attachments: string[];      // 相对输出目录的附件路径
+    children: ChildPageInfo[];  // 子页面/子数据库,数据库则为有详情的条目
+    lastEditedBy?: string;      // 最后编辑者的用户 ID
+}
+
+export type ManifestChangeType = "added" | "updated" | "moved" | "removed";
+
+/**
+ * 两次导出之间页面或数据库的变化
+ */
+export interface ManifestChange {
+    type: ManifestChangeType;
+    id: string;
+    title: string;
+    path: string;               // 相对输出目录的路径,未写入文件时为不含扩展名的路径或标题
+    previousPath?: string;      // 移动前的路径
+}
+
+/**
+ * 获取条目分配的路径(不含扩展名),兼容未记录 basePath 的旧清单
+ * @param entry - 清单条目
+ */
+export function entryBasePath(entry: ManifestEntry): string | undefined {
+    return entry.basePath ?? entry.outputPath?.replace(/\.md$/, "");
+}
+
+/**
+ * 获取条目写入的所有文件(页面或表格文件、额外格式和附件)
+ * @param entry - 清单条目
+ * @returns 相对输出目录的路径
+ */
+export function entryFiles(entry: ManifestEntry): string[] {
+    return [...(entry.outputPath ? [entry.outputPath] : []), ...(entry.additionalFiles ?? []), ...entry.attachments];
+}
+
+/**
+ * 获取清单条目在变更日志中显示的路径,无详情的数据库条目显示为所属数据库路径加标题
+ * @param entry - 清单条目
+ * @param entries - 同一清单中的条目(用于查找所属数据库)
+ */
+function entryDisplayPath(entry: ManifestEntry, entries: Map<string, ManifestEntry>): string {
+    const path = entry.outputPath ?? entryBasePath(entry);
+    if (path) {
+        return path;
+    }
+    const database = entry.databaseId ? entries.get(normalizeNotionId(entry.databaseId)) : undefined;
+    const databasePath = database && entryBasePath(database);
+    return databasePath ? `${databasePath} › ${entry.title}` : entry.title;
+}
+
+/**
+ * 比较两次导出的清单,找出新增、修改、移动和删除的页面和数据库
+ * @param before - 导出前的清单条目
+ * @param after - 导出后的清单条目
+ * @returns 变化列表
+ */
+export function diffManifestEntries(before: ManifestEntry[], after: ManifestEntry[]): ManifestChange[] {
+    const beforeEntries = new Map(before.map(entry => [normalizeNotionId(entry.id), entry]));
+    const afterEntries = new Map(after.map(entry => [normalizeNotionId(entry.id), entry]));
+    const changes: ManifestChange[] = [];
+
+    for (const [id, entry] of afterEntries) {
+        const old = beforeEntries.get(id);
+        const path = entryDisplayPath(entry, afterEntries);
+        const previousPath = old && entryDisplayPath(old, beforeEntries);
+        if (!old) {
+            changes.push({ type: "added", id: entry.id, title: entry.title, path });
+        } else if (previousPath !== path) {
+            changes.push({ type: "moved", id: entry.id, title: entry.title, path, previousPath });
+        } else if (old.lastEditedTime !== entry.lastEditedTime) {
+            changes.push({ type: "updated", id: entry.id, title: entry.title, path });
+        }
+    }
+
+    for (const [id, old] of beforeEntries) {
+        if (!afterEntries.has(id)) {
+            changes.push({ type: "removed", id: old.id, title: old.title, path: entryDisplayPath(old, beforeEntries) });
+        }
+    }
+
+    return changes;
+}
+
+interface ManifestFile {
+    version: number;
+    rootPageId: string;
+    generatedAt: string;
+    entries: Record<string, ManifestEntry>;
+    attachments?: Record<string, string>;  // 附件缓存键(不含签名的 URL)到相对输出目录路径的映射
+}
+
+/**
+ * 导出清单 - 记录每个页面的最后编辑时间、输出路径和附件,用于增量导出
+ */
+export default class ExportManifest {
+    public static readonly FILE_NAME = ".notion-pull-manifest.json";
+    private static readonly VERSION = 1;
+
+    private outputDir: string;
+    private rootPageId: string;
+    private previous: Map<string, ManifestEntry>;
+    private current: Map<string, ManifestEntry> = new Map();
+    private carriedOver: Set<string> = new Set();
+    private attachments: Map<string, string>;
+
+    private constructor(
+        outputDir: string,
+        rootPageId: string,
+        previous: Map<string, ManifestEntry>,
+        attachments: Map<string, string>
+    ) {
+        this.outputDir = outputDir;
+        this.rootPageId = rootPageId;
+        this.previous = previous;
+        this.attachments = attachments;
+    }
+
+    /**
+     * 从输出目录加载上一次导出的清单,不存在或根页面不同时返回空清单
+     * @param outputDir - 输出目录
+     * @param rootPageId - 本次导出的根页面 ID
+     * @returns 导出清单
+     */
+    public static async load(outputDir: string, rootPageId: string): Promise<ExportManifest> {
+        const previous = new Map<string, ManifestEntry>();
+        const attachments = new Map<string, string>();
+
+        try {
+            const content = await readFile(join(outputDir, ExportManifest.FILE_NAME), "utf-8");
+            const data = JSON.parse(content) as ManifestFile;
+            if (data.version === ExportManifest.VERSION && data.rootPageId === rootPageId) {
+                for (const entry of Object.values(data.entries)) {
+                    previous.set(entry.id, entry);
+                }
+                for (const [key, path] of Object.entries(data.attachments ?? {})) {
+                    attachments.set(key, path);
+                }
+            }
+        } catch {
+            // 清单不存在或无法解析时视为首次导出
+        }
+
+        return new ExportManifest(outputDir, rootPageId, previous, attachments);
+    }
+
+    /**
+     * 读取输出目录中清单记录的所有条目(不限根页面),清单不存在或无法解析时返回空数组
+     * @param outputDir - 输出目录
+     */
+    public static async readEntries(outputDir: string): Promise<ManifestEntry[]> {
+        try {
+            const content = await readFile(join(outputDir, ExportManifest.FILE_NAME), "utf-8");
+            const data = JSON.parse(content) as ManifestFile;
+            return data.version === ExportManifest.VERSION ? Object.values(data.entries) : [];
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * 获取上一次导出时的记录
+     * @param id - 页面或数据库 ID
+     */
+    public getPrevious(id: string): ManifestEntry | undefined {
+        return this.previous.get(id);
+    }
+
+    /**
+     * 获取上一次导出的所有条目
+     */
+    public previousEntries(): ManifestEntry[] {
+        return Array.from(this.previous.values());
+    }
+
+    /**
+     * 获取本次导出中的记录
+     * @param id - 页面或数据库 ID
+     */
+    public get(id: string): ManifestEntry | undefined {
+        return this.current.get(id);
+    }
+
+    /**
+     * 判断页面自上次导出后是否未发生变化
+     * @param id - 页面 ID
+     * @param lastEditedTime - 页面当前的最后编辑时间
+     * @param outputPath - 本次导出将要写入的相对路径
+     */
+    public isUnchanged(id: string, lastEditedTime: string, outputPath?: string): boolean {
+        const entry = this.previous.get(id);
+        if (!entry || !lastEditedTime) {
+            return false;
+        }
+        // 父页面重命名会导致路径变化,此时需要重新写入
+        return entry.lastEditedTime === lastEditedTime && (!entry.outputPath || entry.outputPath === outputPath);
+    }
+
+    /**
+     * 记录本次导出的页面或数据库
+     * @param entry - 清单条目
+     */
+    public set(entry: ManifestEntry): void {
+        this.current.set(entry.id, entry);
+    }
+
+    /**
+     * 恢复中断前已完成的条目
+     * @param entry - 清单条目
+     */
+    public restore(entry: ManifestEntry): void {
+        this.current.set(entry.id, entry);
+
+        // 中断前沿用而未重新写入的条目仍视为沿用
+        const previous = this.previous.get(entry.id);
+        if (previous && previous.lastEditedTime === entry.lastEditedTime && previous.outputPath === entry.outputPath) {
+            this.carriedOver.add(entry.id);
+        }
+    }
+
+    /**
+     * 将未变化的页面从上一次的清单沿用到本次清单
+     * @param id - 页面 ID
+     * @returns 沿用的条目
+     */
+    public carryOver(id: string): ManifestEntry | undefined {
+        const entry = this.previous.get(id);
+        if (entry) {
+            this.current.set(id, entry);
+            this.carriedOver.add(id);
+        }
+        return entry;
+    }
+
+    /**
+     * 沿用导出失败的页面和数据库及其子页面上一次的记录(本次已导出的除外),
+     * 使它们留下的文件在之后的导出中仍可以重试、移动或清理
+     * @param ids - 导出失败的页面和数据库 ID
+     * @param paths - 未能遍历完的路径(如无法获取子页面的未导出页面),其下上一次记录的页面同样沿用
+     */
+    public retainFailed(ids: string[], paths: string[] = []): void {
+        const previous = new Map(this.previousEntries().map(entry => [normalizeNotionId(entry.id), entry]));
+        const current = new Set(this.entries().map(entry => normalizeNotionId(entry.id)));
+        const isUnder = (entry: ManifestEntry) => {
+            const basePath = entryBasePath(entry);
+            return basePath !== undefined && paths.some(path => basePath.startsWith(`${path}/`));
+        };
+        const pending = [...ids, ...this.previousEntries().filter(isUnder).map(entry => entry.id)].map(normalizeNotionId);
+        const retained = new Set<string>();
+        while (pending.length > 0) {
+            const id = pending.pop()!;
+            const entry = previous.get(id);
+            if (!entry || current.has(id)) {
+                continue;
+            }
+            this.carryOver(entry.id);
+            current.add(id);
+            retained.add(id);
+            pending.push(...entry.children.map(child => normalizeNotionId(child.id)));
+        }
+
+        // 无详情的数据库条目不在数据库的子页面中,随所属数据库一起沿用
+        for (const [id, entry] of previous) {
+            if (entry.databaseId && retained.has(normalizeNotionId(entry.databaseId)) && !current.has(id)) {
+                this.carryOver(entry.id);
+            }
+        }
+    }
+
+    /**
+     * 判断页面是否为沿用上一次导出结果(本次未重新写入)
+     * @param id - 页面 ID
+     */
+    public isCarriedOver(id: string): boolean {
+        return this.carriedOver.has(id);
+    }
+
+    /**
+     * 获取已下载的附件(包括上一次导出下载的附件)
+     * @returns 附件缓存键到相对输出目录路径的映射
+     */
+    public getAttachments(): Map<string, string> {
+        return this.attachments;
+    }
+
+    /**
+     * 记录已下载的附件
+     * @param key - 附件缓存键
+     * @param path - 相对输出目录的附件路径
+     */
+    public setAttachment(key: string, path: string): void {
+        this.attachments.set(key, path);
+    }
+
+    /**
+     * 获取本次导出的所有条目(包括未变化而沿用的条目)
+     */
+    public entries(): ManifestEntry[] {
+        return Array.from(this.current.values());
+    }
+
+    /**
+     * 将本次清单写入输出目录
+     */
+    public async save(): Promise<void> {
+        const data: ManifestFile = {
+            version: ExportManifest.VERSION,
+            rootPageId: this.rootPageId,
+            generatedAt: new Date().toISOString(),
+            entries: Object.fromEntries(this.current),
+            attachments: this.referencedAttachments(),
+        };
+        await writeFile(join(this.outputDir, ExportManifest.FILE_NAME), JSON.stringify(data, null, 2), "utf-8");
+    }
+
+    /**
+     * 只保留仍被本次导出页面引用的附件记录
+     */
+    private referencedAttachments(): Record<string, string> {
+        const referenced = new Set(this.entries().flatMap(entry => entry.attachments));
+        const attachments: Record<string, string> = {};
+        for (const [key, path] of this.attachments) {
+            if (referenced.has(path)) {
+                attachments[key] = path;
+            }
+        }
+        return attachments;
+    }
+}
@@ -0,0 +1,330 @@
+import { posix } from "path";
+import type NotionClient from "./NotionClient.js";
+import { WORKSPACE_ROOT_ID } from "./NotionClient.js";
+import type { ChildPageInfo, PageChildren, PageOrDatabase } from "./NotionClient.js";
+import type { DatabaseFormat } from "./DatabaseSerializer.js";
+import { mapConcurrent } from "./RequestScheduler.js";
+import FileNamer, { detailsDirName } from "./FileNamer.js";
+import { buildDatabaseQuery, DatabaseQuery, DatabaseQueryRule } from "./DatabaseQuery.js";
+import PageFilter from "./PageFilter.js";
+import Messages, { defaultMessages } from "./Messages.js";
+
+export interface PlanNode {
+    id: string;
+    type: "page" | "database" | "workspace";
+    title: string;
+    outputPath: string | null;      // 相对输出目录的路径,页面没有内容时不会写入文件
+    additionalFiles?: string[];     // 数据库额外导出的 CSV/JSON 文件
+    rowCount?: number;              // 数据库条目数量
+    mediaCount: number;             // 页面直接包含的媒体块数量(不含嵌套块,仅为估计值)
+    error?: string;                 // 读取失败时的错误信息
+    children: PlanNode[];
+}
+
+export interface PlanSummary {
+    pages: number;
+    databases: number;
+    rows: number;
+    mediaFiles: number;
+}
+
+export interface ExportPlan {
+    rootPageId: string;
+    summary: PlanSummary;
+    tree: PlanNode;
+}
+
+export interface ExportPlanOptions {
+    concurrency?: number;               // 同级页面的最大并发数
+    databaseFormats?: DatabaseFormat[]; // 数据库额外导出的格式
+    databaseQueries?: DatabaseQueryRule[]; // 数据库的筛选和排序规则
+    fileNamer?: FileNamer;              // 文件命名器,默认按标题命名
+    pageFilter?: PageFilter;            // 深度和 include/exclude 规则,跳过的页面不出现在计划中
+    messages?: Messages;                // 决定详情目录的名称,默认为中文
+}
+
+/**
+ * 导出计划生成器 - 只读取页面结构,预览将要导出的页面、数据库和输出路径,不写入任何文件
+ */
+export default class ExportPlanner {
+    private notionClient: NotionClient;
+    private concurrency: number;
+    private databaseFormats: DatabaseFormat[];
+    private databaseQueries: DatabaseQueryRule[];
+    private fileNamer: FileNamer;
+    private pageFilter: PageFilter;
+    private messages: Messages;
+
+    constructor(notionClient: NotionClient, options: ExportPlanOptions = {}) {
+        this.notionClient = notionClient;
+        this.concurrency = options.concurrency ?? 3;
+        this.databaseFormats = options.databaseFormats ?? [];
+        this.databaseQueries = options.databaseQueries ?? [];
+        this.fileNamer = options.fileNamer ?? new FileNamer();
+        this.pageFilter = options.pageFilter ?? new PageFilter({ messages: options.messages });
+        this.messages = options.messages ?? defaultMessages;
+    }
+
+    /**
+     * 生成导出计划
+     * @param rootPageId - 根页面 ID
+     * @returns 导出计划(页面树及统计)
+     */
+    public async plan(rootPageId: string): Promise<ExportPlan> {
+        const page = await this.notionClient.getPage(rootPageId);
+        const title = this.notionClient.getPageTitle(page);
+        const root: ChildPageInfo = { id: rootPageId, title, type: "page" };
+        const fileName = this.fileNamer.assignOne("", root);
+        const decision = this.pageFilter.decide(root, fileName, 0);
+
+        let tree: PlanNode;
+        if (decision === "skip") {
+            tree = { id: rootPageId, type: "page", title, outputPath: null, mediaCount: 0, children: [] };
+        } else {
+            tree = await this.planPage(rootPageId, title, fileName, "", false, 0);
+            if (decision === "traverse") {
+                tree.outputPath = null;
+                tree.mediaCount = 0;
+            }
+        }
+
+        return {
+            rootPageId,
+            summary: summarizePlan(tree),
+            tree,
+        };
+    }
+
+    /**
+     * 生成整个工作区的导出计划,顶层页面和数据库直接位于输出目录
+     * @param roots - 工作区中的顶层页面和数据库
+     * @returns 导出计划(以工作区为根节点)
+     */
+    public async planWorkspace(roots: ChildPageInfo[]): Promise<ExportPlan> {
+        const tree: PlanNode = {
+            id: WORKSPACE_ROOT_ID,
+            type: "workspace",
+            title: "Workspace",
+            outputPath: null,
+            mediaCount: 0,
+            children: await this.planChildren(roots, "", 0),
+        };
+
+        return {
+            rootPageId: WORKSPACE_ROOT_ID,
+            summary: summarizePlan(tree),
+            tree,
+        };
+    }
+
+    /**
+     * 递归生成页面的计划节点
+     * @param pageId - 页面 ID
+     * @param title - 页面标题
+     * @param fileName - 分配的文件名
+     * @param currentDir - 页面所在目录(相对输出目录)
+     * @param isDatabaseRow - 是否为数据库条目(内容为空时会导出属性)
+     * @param depth - 页面深度,根页面为 0
+     * @param listing - 已获取的子块统计,未提供时重新获取
+     */
+    private async planPage(
+        pageId: string,
+        title: string,
+        fileName: string,
+        currentDir: string,
+        isDatabaseRow: boolean,
+        depth: number,
+        listing?: PageChildren
+    ): Promise<PlanNode> {
+        const node: PlanNode = {
+            id: pageId,
+            type: "page",
+            title,
+            outputPath: posix.join(currentDir, `${fileName}.md`),
+            mediaCount: 0,
+            children: [],
+        };
+
+        try {
+            const { childPages, blockCount, mediaCount } = listing ?? await this.notionClient.listChildren(pageId);
+            node.mediaCount = mediaCount;
+
+            // 与导出时一致:没有内容块的普通页面不写入文件
+            if (blockCount === childPages.length && !isDatabaseRow) {
+                node.outputPath = null;
+            }
+
+            node.children = await this.planChildren(childPages, posix.join(currentDir, fileName), depth + 1);
+        } catch (error) {
+            node.error = error instanceof Error ? error.message : String(error);
+        }
+
+        return node;
+    }
+
+    /**
+     * 生成子页面和子数据库的计划节点,按规则跳过的页面不生成节点
+     * @param childPages - 子页面信息数组
+     * @param subDir - 子页面所在目录
+     * @param depth - 子页面深度
+     */
+    private async planChildren(childPages: ChildPageInfo[], subDir: string, depth: number): Promise<PlanNode[]> {
+        const names = this.fileNamer.assign(subDir, childPages);
+        const decisions = childPages.map(child => this.pageFilter.decide(child, posix.join(subDir, names.get(child.id)!), depth));
+        const included = childPages.filter((_, index) => decisions[index] !== "skip");
+
+        return mapConcurrent(included, this.concurrency, async child => {
+            if (child.type === "database") {
+                return this.planDatabase(child, names.get(child.id)!, subDir, depth);
+            }
+            const node = await this.planPage(child.id, child.title, names.get(child.id)!, subDir, false, depth);
+            // 只为查找子页面而遍历的页面不写入文件
+            if (decisions[childPages.indexOf(child)] === "traverse") {
+                node.outputPath = null;
+                node.mediaCount = 0;
+            }
+            return node;
+        });
+    }
+
+    /**
+     * 生成数据库的计划节点,有详情内容的条目作为子节点
+     * @param database - 数据库信息
+     * @param fileName - 分配的文件名
+     * @param currentDir - 数据库所在目录
+     * @param depth - 数据库深度
+     */
+    private async planDatabase(database: ChildPageInfo, fileName: string, currentDir: string, depth: number): Promise<PlanNode> {
+        const node: PlanNode = {
+            id: database.id,
+            type: "database",
+            title: database.title,
+            outputPath: posix.join(currentDir, `${fileName}.md`),
+            additionalFiles: this.databaseFormats
+                .filter(format => format !== "md")
+                .map(format => posix.join(currentDir, `${fileName}.${format}`)),
+            rowCount: 0,
+            mediaCount: 0,
+            children: [],
+        };
+
+        try {
+            // 有筛选或排序规则时需要读取数据库属性以生成查询条件
+            let query: DatabaseQuery = {};
+            if (this.databaseQueries.length > 0) {
+                const databaseObject = await this.notionClient.getPageOrDatabase(database.id, "database");
+                query = buildDatabaseQuery(this.databaseQueries, databaseObject, this.notionClient.getPageTitle(databaseObject), this.messages);
+            }
+
+            const rows: PageOrDatabase[] = [];
+            for await (const row of this.notionClient.queryDatabasePaginated(database.id, query)) {
+                rows.push(row);
+            }
+            node.rowCount = rows.length;
+
+            // 只有包含内容块或子页面的条目会导出到详情目录,超过最大深度时不导出详情
+            if (!this.pageFilter.allowsDepth(depth + 1)) {
+                return node;
+            }
+            // 按 ID 或标题排除的条目不读取内容
+            const detailsDir = posix.join(currentDir, detailsDirName(fileName, this.messages));
+            const candidateRows = rows.filter(row =>
+                this.pageFilter.mayExport({ id: row.id, title: this.notionClient.getPageTitle(row), type: "page" }, detailsDir, depth + 1)
+            );
+            const listings = await mapConcurrent(candidateRows, this.concurrency, async row => {
+                try {
+                    return await this.notionClient.listChildren(row.id);
+                } catch {
+                    return undefined; // 由 planPage 重试并记录错误
+                }
+            });
+            const detailRows: ChildPageInfo[] = candidateRows
+                .filter((_, index) => listings[index]?.blockCount !== 0)
+                .map(row => ({ id: row.id, title: this.notionClient.getPageTitle(row), type: "page" }));
+
+            const rowNames = this.fileNamer.assign(detailsDir, detailRows);
+            const exportedRows = detailRows.filter(row =>
+                this.pageFilter.decide(row, posix.join(detailsDir, rowNames.get(row.id)!), depth + 1) === "export"
+            );
+            const listingsById = new Map(candidateRows.map((row, index) => [row.id, listings[index]]));
+            node.children = await mapConcurrent(exportedRows, this.concurrency, row =>
+                this.planPage(row.id, row.title, rowNames.get(row.id)!, detailsDir, true, depth + 1, listingsById.get(row.id))
+            );
+        } catch (error) {
+            node.error = error instanceof Error ? error.message : String(error);
+        }
+
+        return node;
+    }
+}
+
+/**
+ * 统计计划中的页面、数据库、条目和媒体文件数量
+ * @param node - 计划节点
+ */
+function summarizePlan(node: PlanNode): PlanSummary {
+    const summary: PlanSummary = {
+        pages: node.type === "page" ? 1 : 0,
+        databases: node.type === "database" ? 1 : 0,
+        rows: node.rowCount ?? 0,
+        mediaFiles: node.mediaCount,
+    };
+
+    for (const child of node.children) {
+        const childSummary = summarizePlan(child);
+        summary.pages += childSummary.pages;
+        summary.databases += childSummary.databases;
+        summary.rows += childSummary.rows;
+        summary.mediaFiles += childSummary.mediaFiles;
+    }
+
+    return summary;
+}
+
+/**
+ * 将导出计划格式化为缩进的树形文本
+ * @param plan - 导出计划
+ * @param messages - 输出使用的文字
+ * @returns 树形文本
+ */
+export function formatPlanTree(plan: ExportPlan, messages: Messages = defaultMessages): string {
+    const lines: string[] = [];
+
+    const visit = (node: PlanNode, depth: number) => {
+        const indent = "  ".repeat(depth);
+        const icon = { page: "📄", database: "🗄️ ", workspace: "🌐" }[node.type];
+        const details: string[] = [];
+        if (node.rowCount !== undefined) {
+            details.push(messages.t("plan.rows", { count: node.rowCount }));
+        }
+        if (node.mediaCount > 0) {
+            details.push(messages.t("plan.media", { count: node.mediaCount }));
+        }
+
+        let line = `${indent}${icon} ${node.title}`;
+        if (details.length > 0) {
+            line += ` (${details.join(", ")})`;
+        }
+        if (node.type !== "workspace") {
+            line += node.outputPath ? ` → ${node.outputPath}` : ` → ${messages.t("plan.noContent")}`;
+        }
+        for (const file of node.additionalFiles ?? []) {
+            line += `, ${file}`;
+        }
+        if (node.error) {
+            line += ` ❌ ${node.error}`;
+        }
+        lines.push(line);
+
+        for (const child of node.children) {
+            visit(child, depth + 1);
+        }
+    };
+    visit(plan.tree, 0);
+
+    const { pages, databases, rows, mediaFiles } = plan.summary;
+    lines.push("");
+    lines.push(messages.t("plan.summary", { pages, databases, rows, media: mediaFiles }));
+
+    return lines.join("\n");
+}
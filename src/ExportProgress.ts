@@ -0,0 +1,188 @@
+import type { EventEmitter } from "events";
+import type { ExportEventMap, LogFields, Logger } from "./ExportEvents.js";
+import Messages, { defaultMessages } from "./Messages.js";
+
+/**
+ * 显示进度所需的最小输出流接口,与 process.stderr 兼容
+ */
+export interface ProgressStream {
+    isTTY?: boolean;
+    columns?: number;
+    write(chunk: string): boolean;
+}
+
+// 计算请求速率的时间窗口
+const RATE_WINDOW_MS = 5000;
+
+// 状态行的刷新间隔
+const RENDER_INTERVAL_MS = 200;
+
+/**
+ * 导出进度显示 - 在终端中保持一行状态:已完成和已发现的页面数、当前页面、请求速率和下载的数据量
+ * 页面总数随子页面的发现而增加。其他日志输出前先清除状态行,输出后重新绘制,因此日志需要经过 wrapLogger()
+ */
+export default class ExportProgress {
+    private stream: ProgressStream;
+    private messages: Messages;
+    private total: number = 0;
+    private done: number = 0;
+    private bytes: number = 0;
+    private title: string = "";
+    private requests: number[] = [];   // 最近请求的完成时间
+    private startedAt: number = 0;
+    private timer?: ReturnType<typeof setInterval>;
+    private visible: boolean = false;
+
+    /**
+     * @param stream - 状态行的输出流,默认为标准错误
+     * @param messages - 状态行使用的文字
+     */
+    constructor(stream: ProgressStream = process.stderr, messages: Messages = defaultMessages) {
+        this.stream = stream;
+        this.messages = messages;
+    }
+
+    /**
+     * 判断输出流是否为终端(只有终端才能原地刷新状态行)
+     * @param stream - 输出流
+     */
+    public static isSupported(stream: ProgressStream = process.stderr): boolean {
+        return Boolean(stream.isTTY);
+    }
+
+    /**
+     * 订阅导出器的事件以统计进度
+     * @param exporter - 导出器
+     */
+    public attach(exporter: EventEmitter<ExportEventMap>): void {
+        exporter.on("pagesDiscovered", event => {
+            this.total += event.count;
+        });
+        exporter.on("pageStarted", event => {
+            this.title = event.title;
+        });
+        exporter.on("pageWritten", () => {
+            this.done++;
+        });
+        exporter.on("pageSkipped", () => {
+            this.done++;
+        });
+        exporter.on("error", event => {
+            if (event.type !== "download") {
+                this.done++;
+            }
+        });
+        exporter.on("requestFinished", () => {
+            this.requests.push(Date.now());
+        });
+        exporter.on("downloadFinished", event => {
+            this.bytes += event.bytes;
+        });
+    }
+
+    /**
+     * 包装日志,使日志输出不与状态行交错
+     * @param logger - 原始日志
+     * @returns 输出前清除、输出后重新绘制状态行的日志
+     */
+    public wrapLogger(logger: Logger): Logger {
+        const wrap = (log: ((message: string, fields?: LogFields) => void) | undefined) => log && ((message: string, fields?: LogFields) => {
+            this.clear();
+            log.call(logger, message, fields);
+            this.render();
+        });
+        return {
+            info: wrap(logger.info)!,
+            warn: wrap(logger.warn)!,
+            error: wrap(logger.error)!,
+            verbose: wrap(logger.verbose),
+            debug: wrap(logger.debug),
+        };
+    }
+
+    /**
+     * 开始定期刷新状态行
+     */
+    public start(): void {
+        this.startedAt = Date.now();
+        this.timer = setInterval(() => this.render(), RENDER_INTERVAL_MS);
+        this.timer.unref();
+        this.render();
+    }
+
+    /**
+     * 停止刷新并清除状态行
+     */
+    public stop(): void {
+        clearInterval(this.timer);
+        this.timer = undefined;
+        this.clear();
+    }
+
+    /**
+     * 绘制状态行,超出终端宽度的部分截断
+     */
+    private render(): void {
+        if (!this.timer) {
+            return;
+        }
+
+        const now = Date.now();
+        this.requests = this.requests.filter(time => now - time < RATE_WINDOW_MS);
+        const elapsed = Math.max(Math.min(now - this.startedAt, RATE_WINDOW_MS), 1000);
+
+        const line = this.messages.t("progress.status", {
+            done: this.done,
+            total: Math.max(this.total, this.done),
+            rate: (this.requests.length / (elapsed / 1000)).toFixed(1),
+            bytes: formatBytes(this.bytes),
+            title: this.title,
+        });
+        this.stream.write(`\r\x1b[K${truncate(line, (this.stream.columns || 80) - 1)}`);
+        this.visible = true;
+    }
+
+    /**
+     * 清除已绘制的状态行
+     */
+    private clear(): void {
+        if (this.visible) {
+            this.stream.write("\r\x1b[K");
+            this.visible = false;
+        }
+    }
+}
+
+/**
+ * 将字节数格式化为可读的大小
+ * @param bytes - 字节数
+ * @returns 如 "512 B"、"1.5 MB"
+ */
+export function formatBytes(bytes: number): string {
+    const units = ["B", "KB", "MB", "GB"];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * 按终端显示宽度截断文本,中文和 emoji 按两列计算
+ * @param text - 文本
+ * @param width - 最大显示宽度
+ */
+function truncate(text: string, width: number): string {
+    let used = 0;
+    let result = "";
+    for (const char of text) {
+        used += char.codePointAt(0)! >= 0x2e80 ? 2 : 1;
+        if (used > width) {
+            break;
+        }
+        result += char;
+    }
+    return result;
+}
@@ -0,0 +1,97 @@
+import { rm, rmdir } from "fs/promises";
+import { join, posix } from "path";
+import type ExportManifest from "./ExportManifest.js";
+import { entryBasePath, entryFiles } from "./ExportManifest.js";
+import { detailsDirName } from "./FileNamer.js";
+import { normalizeNotionId } from "./LinkRewriter.js";
+import Messages, { defaultMessages } from "./Messages.js";
+
+/**
+ * 过期文件清理器 - 删除上一次导出写入、本次导出已不再写入的文件
+ * 包括已删除、移出导出范围或不再有内容的页面,不再使用的数据库格式和不再被引用的附件,
+ * 以及因此变空的子页面目录和详情目录。只删除清单中记录的文件,输出目录中的其他文件不受影响。
+ * 导出失败的页面应先通过 ExportManifest.retainFailed() 沿用记录,否则其文件同样会被删除
+ */
+export default class ExportPruner {
+    private outputDir: string;
+    private manifest: ExportManifest;
+    private messages: Messages;
+
+    /**
+     * @param outputDir - 输出目录
+     * @param manifest - 本次导出的清单(包含上一次导出的记录)
+     * @param messages - 导出使用的文字(决定详情目录的名称)
+     */
+    constructor(outputDir: string, manifest: ExportManifest, messages: Messages = defaultMessages) {
+        this.outputDir = outputDir;
+        this.manifest = manifest;
+        this.messages = messages;
+    }
+
+    /**
+     * 删除过期的文件和变空的目录
+     * @returns 删除的文件和目录(相对输出目录)
+     */
+    public async prune(): Promise<string[]> {
+        const previous = new Map(this.manifest.previousEntries().map(entry => [normalizeNotionId(entry.id), entry]));
+        const current = new Map(this.manifest.entries().map(entry => [normalizeNotionId(entry.id), entry]));
+        const referenced = new Set(Array.from(current.values()).flatMap(entryFiles));
+
+        const removed: string[] = [];
+        const dirs = new Set<string>();
+        for (const [id, entry] of previous) {
+            for (const file of entryFiles(entry)) {
+                if (!referenced.has(file) && await this.removeFile(file)) {
+                    removed.push(file);
+                    dirs.add(posix.dirname(file));
+                }
+            }
+
+            // 不再使用的子页面目录和数据库详情目录(移动过的目录已不存在)
+            const basePath = entryBasePath(entry);
+            const currentEntry = current.get(id);
+            if (basePath && (!currentEntry || entryBasePath(currentEntry) !== basePath)) {
+                dirs.add(entry.type === "database" ? detailsDirName(basePath, this.messages) : basePath);
+            }
+        }
+
+        // 由深到浅删除变空的目录,并继续检查上级目录
+        const sorted = Array.from(dirs).sort((a, b) => b.split("/").length - a.split("/").length);
+        for (let dir of sorted) {
+            while (dir !== "." && await this.removeEmptyDirectory(dir)) {
+                removed.push(dir);
+                dir = posix.dirname(dir);
+            }
+        }
+
+        return removed;
+    }
+
+    /**
+     * 删除文件
+     * @param path - 相对输出目录的路径
+     * @returns 文件存在并已删除时返回 true
+     */
+    private async removeFile(path: string): Promise<boolean> {
+        try {
+            await rm(join(this.outputDir, path));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * 删除空目录,目录不存在或不为空时不做处理
+     * @param path - 相对输出目录的路径
+     * @returns 目录已删除时返回 true
+     */
+    private async removeEmptyDirectory(path: string): Promise<boolean> {
+        try {
+            await rmdir(join(this.outputDir, path));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+}
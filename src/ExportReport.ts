@@ -0,0 +1,200 @@
+import { isNotionClientError } from "@notionhq/client";
+import { DownloadError } from "./FileDownloader.js";
+
+/**
+ * 页面或数据库的导出状态
+ * - exported: 已转换并写入
+ * - unchanged: 增量模式下未修改,沿用上一次的导出结果
+ * - resumed: 断点续传时已在上一次完成
+ * - failed: 导出失败
+ */
+export type PageStatus = "exported" | "unchanged" | "resumed" | "failed";
+
+/**
+ * 导出失败时的处理策略
+ * - any: 页面或文件下载失败时均以非零状态退出
+ * - pages: 只有页面或数据库导出失败时以非零状态退出
+ * - never: 始终以零状态退出
+ */
+export type FailOnPolicy = "any" | "pages" | "never";
+
+export const FAIL_ON_POLICIES: FailOnPolicy[] = ["any", "pages", "never"];
+
+export interface ReportError {
+    code: string;       // Notion API 错误码、系统错误码或 http_<状态码>
+    message: string;
+}
+
+export interface PageReport {
+    id: string;
+    type: "page" | "database";
+    title?: string;
+    status: PageStatus;
+    outputPath?: string;    // 相对输出目录的路径
+    durationMs: number;     // 页面自身的导出耗时(不含子页面)
+    error?: ReportError;
+}
+
+export interface FailedDownload {
+    pageId: string;
+    url: string;
+    error: ReportError;
+}
+
+export interface ExportReportData {
+    version: 1;
+    rootPageId: string;
+    status: "success" | "failed" | "aborted";
+    startedAt: string;
+    finishedAt: string;
+    durationMs: number;
+    counts: {
+        pages: number;
+        databases: number;
+        exported: number;
+        unchanged: number;
+        resumed: number;
+        failed: number;
+        downloads: number;
+        failedDownloads: number;
+    };
+    failedPages: { id: string; type: "page" | "database"; title?: string; error: ReportError }[];
+    failedDownloads: FailedDownload[];
+    pages: PageReport[];
+}
+
+/**
+ * 获取错误码
+ * @param error - 捕获的错误
+ * @returns Notion API 错误码、系统错误码(如 ECONNRESET)、http_<状态码> 或 unknown_error
+ */
+export function errorCode(error: unknown): string {
+    if (isNotionClientError(error)) {
+        return error.code;
+    }
+    if (error instanceof DownloadError) {
+        return `http_${error.status}`;
+    }
+    if (error instanceof Error) {
+        // 系统错误的错误码在 code 上,fetch 的网络错误在 cause 上
+        const code = (error as { code?: unknown }).code ?? (error.cause as { code?: unknown } | undefined)?.code;
+        if (typeof code === "string") {
+            return code;
+        }
+    }
+    return "unknown_error";
+}
+
+/**
+ * 转换为报告中的错误信息
+ * @param error - 捕获的错误
+ */
+export function toReportError(error: unknown): ReportError {
+    return {
+        code: errorCode(error),
+        message: error instanceof Error ? error.message : String(error),
+    };
+}
+
+/**
+ * 按处理策略判断导出是否失败
+ * @param report - 导出报告
+ * @param policy - 失败处理策略
+ */
+export function shouldFail(report: ExportReportData, policy: FailOnPolicy): boolean {
+    switch (policy) {
+        case "any":
+            return report.counts.failed > 0 || report.counts.failedDownloads > 0;
+        case "pages":
+            return report.counts.failed > 0;
+        default:
+            return false;
+    }
+}
+
+/**
+ * 导出报告 - 记录每个页面的导出状态、耗时以及失败的页面和文件下载
+ */
+export default class ExportReport {
+    private rootPageId: string;
+    private startedAt: Date = new Date();
+    private pages: Map<string, PageReport> = new Map();
+    private failedDownloads: FailedDownload[] = [];
+
+    constructor(rootPageId: string) {
+        this.rootPageId = rootPageId;
+    }
+
+    /**
+     * 记录页面或数据库的导出结果,同一 ID 只保留最后一次结果
+     * @param page - 页面报告
+     */
+    public record(page: PageReport): void {
+        this.pages.set(page.id, page);
+    }
+
+    /**
+     * 记录下载失败的文件
+     * @param pageId - 引用文件的页面 ID
+     * @param url - 文件 URL
+     * @param error - 捕获的错误
+     */
+    public recordFailedDownload(pageId: string, url: string, error: unknown): void {
+        this.failedDownloads.push({ pageId, url, error: toReportError(error) });
+    }
+
+    /**
+     * 是否有页面或文件下载失败
+     */
+    public hasFailures(): boolean {
+        return this.failedDownloads.length > 0 || Array.from(this.pages.values()).some(page => page.status === "failed");
+    }
+
+    /**
+     * 获取导出失败的页面和数据库 ID
+     */
+    public failedIds(): string[] {
+        return Array.from(this.pages.values()).filter(page => page.status === "failed").map(page => page.id);
+    }
+
+    /**
+     * 生成报告数据
+     * @param downloads - 本次下载的文件数量
+     * @param aborted - 导出是否被中断
+     */
+    public build(downloads: number, aborted: boolean): ExportReportData {
+        const finishedAt = new Date();
+        const pages = Array.from(this.pages.values());
+        const failed = pages.filter(page => page.status === "failed");
+        const countStatus = (status: PageStatus) => pages.filter(page => page.status === status).length;
+
+        let status: ExportReportData["status"] = "success";
+        if (aborted) {
+            status = "aborted";
+        } else if (this.hasFailures()) {
+            status = "failed";
+        }
+
+        return {
+            version: 1,
+            rootPageId: this.rootPageId,
+            status,
+            startedAt: this.startedAt.toISOString(),
+            finishedAt: finishedAt.toISOString(),
+            durationMs: finishedAt.getTime() - this.startedAt.getTime(),
+            counts: {
+                pages: pages.filter(page => page.type === "page").length,
+                databases: pages.filter(page => page.type === "database").length,
+                exported: countStatus("exported"),
+                unchanged: countStatus("unchanged"),
+                resumed: countStatus("resumed"),
+                failed: failed.length,
+                downloads,
+                failedDownloads: this.failedDownloads.length,
+            },
+            failedPages: failed.map(page => ({ id: page.id, type: page.type, title: page.title, error: page.error! })),
+            failedDownloads: this.failedDownloads,
+            pages,
+        };
+    }
+}
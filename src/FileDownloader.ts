@@ -1,126 +1,216 @@
-import { mkdir, writeFile } from "fs/promises";
+import { createHash } from "crypto";
+import { access, mkdir, writeFile } from "fs/promises";
 import { join, extname } from "path";
 import { fetch } from "undici";
+import { consoleLogger, DownloadFinishedEvent, Logger } from "./ExportEvents.js";
+import { formatBytes } from "./ExportProgress.js";
+import Messages, { defaultMessages } from "./Messages.js";
+import type RequestCassette from "./RequestCassette.js";
+import type { ResponseLike } from "./RequestCassette.js";
 
 export interface DownloadedFile {
     originalUrl: string;
     localPath: string;
-    relativePath: string;
+}
+
+// Notion 托管文件所在的域名(含子域名),这些地址带有每次请求都会变化的签名参数
+const SIGNED_FILE_HOSTS = ["amazonaws.com", "notion.so", "notion-static.com", "notionusercontent.com"];
+
+// 签名参数:S3 预签名参数(X-Amz-*)和 Notion 文件地址的过期时间与签名
+const SIGNING_PARAMS = /^(x-amz-.+|expirationtimestamp|signature)$/i;
+
+/**
+ * 计算文件内容的哈希(导出的附件以此命名,推送时用于判断文件是否变化)
+ * @param data - 文件内容
+ * @returns 16 位十六进制哈希
+ */
+export function hashFileContent(data: Uint8Array): string {
+    return createHash("sha256").update(data).digest("hex").substring(0, 16);
+}
+
+/**
+ * 文件下载失败(服务器返回非 2xx 状态码)
+ */
+export class DownloadError extends Error {
+    public readonly status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = "DownloadError";
+        this.status = status;
+    }
 }
 
 /**
  * 文件下载管理器 - 负责下载 Notion 中的图片和附件
+ * 文件按内容哈希命名,内容相同的文件只保存一份,重新导出时文件名保持不变
  */
 export default class FileDownloader {
     private downloadedFiles: Map<string, DownloadedFile> = new Map();
+    private pendingDownloads: Map<string, Promise<DownloadedFile>> = new Map();
+    private downloadCount: number = 0;
+    private logger: Logger;
+    private messages: Messages;
+    private onDownload?: (event: DownloadFinishedEvent) => void;
+    private fetch: (url: string) => Promise<ResponseLike & { ok: boolean }>;
+
+    /**
+     * @param logger - 日志
+     * @param cassette - 录制或回放文件下载
+     * @param messages - 日志使用的消息目录
+     * @param onDownload - 每个文件下载完成时调用(不包括沿用的文件)
+     */
+    constructor(
+        logger: Logger = consoleLogger,
+        cassette?: RequestCassette,
+        messages: Messages = defaultMessages,
+        onDownload?: (event: DownloadFinishedEvent) => void
+    ) {
+        this.logger = logger;
+        this.messages = messages;
+        this.onDownload = onDownload;
+        // 按不含签名的地址录制,回放时签名不同的同一文件 URL 也能命中
+        this.fetch = cassette ? cassette.wrapFetch(fetch, url => this.getCacheKey(url)) : fetch;
+    }
 
     /**
-     * 下载文件到指定目录
+     * 下载文件到附件目录
      * @param url - 文件的原始 URL
-     * @param baseDir - 页面所在的基础目录
-     * @param attachmentsDir - 附件子目录名称（默认为 "attachments"）
+     * @param attachmentsPath - 附件目录路径
      * @returns 下载后的文件信息
      */
-    public async downloadFile(
-        url: string,
-        baseDir: string,
-        attachmentsDir: string = "attachments"
-    ): Promise<DownloadedFile> {
-        // 如果已经下载过，直接返回
-        if (this.downloadedFiles.has(url)) {
-            return this.downloadedFiles.get(url)!;
+    public async downloadFile(url: string, attachmentsPath: string): Promise<DownloadedFile> {
+        // 已下载且文件仍存在时直接返回
+        const cacheKey = this.getCacheKey(url);
+        const cached = this.downloadedFiles.get(cacheKey);
+        if (cached && await this.exists(cached.localPath)) {
+            return cached;
         }
 
+        // 多个页面同时引用同一文件时只下载一次
+        let pending = this.pendingDownloads.get(cacheKey);
+        if (!pending) {
+            pending = this.fetchFile(url, attachmentsPath).finally(() => this.pendingDownloads.delete(cacheKey));
+            this.pendingDownloads.set(cacheKey, pending);
+        }
+
+        const downloadedFile = await pending;
+        this.downloadedFiles.set(cacheKey, downloadedFile);
+        return downloadedFile;
+    }
+
+    /**
+     * 获取文件的缓存键
+     * Notion 托管的文件 URL 带有会变化的签名参数,去掉这些参数;其他参数和其他网站的 URL 保持不变,
+     * 查询参数不同的外部文件(如 ?id=1 和 ?id=2)不会共用缓存
+     * @param url - 文件 URL
+     * @returns 缓存键
+     */
+    public getCacheKey(url: string): string {
         try {
-            // 创建 attachments 目录
-            const attachmentsDirPath = join(baseDir, attachmentsDir);
-            await mkdir(attachmentsDirPath, { recursive: true });
+            const urlObj = new URL(url);
+            const hostname = urlObj.hostname.toLowerCase();
+            if (!SIGNED_FILE_HOSTS.some(host => hostname === host || hostname.endsWith(`.${host}`))) {
+                return url;
+            }
+            for (const name of Array.from(urlObj.searchParams.keys())) {
+                if (SIGNING_PARAMS.test(name)) {
+                    urlObj.searchParams.delete(name);
+                }
+            }
+            return `${urlObj.origin}${urlObj.pathname}${urlObj.search}`;
+        } catch {
+            // 无法解析的 URL 直接使用原始值
+            return url;
+        }
+    }
 
-            // 提取文件名
-            const fileName = this.extractFileName(url);
-            const filePath = join(attachmentsDirPath, fileName);
-            const relativePath = join(attachmentsDir, fileName);
+    /**
+     * 恢复之前下载的文件记录(用于增量导出和断点续传,避免重复下载)
+     * @param files - 缓存键到文件信息的映射
+     */
+    public restore(files: Map<string, DownloadedFile>): void {
+        for (const [key, file] of files) {
+            this.downloadedFiles.set(key, file);
+        }
+    }
+
+    /**
+     * 下载文件并以内容哈希命名写入附件目录,同名文件已存在时不再写入
+     * @param url - 文件 URL
+     * @param attachmentsPath - 附件目录路径
+     */
+    private async fetchFile(url: string, attachmentsPath: string): Promise<DownloadedFile> {
+        try {
+            await mkdir(attachmentsPath, { recursive: true });
 
-            // 下载文件
-            const response = await fetch(url);
+            const startTime = Date.now();
+            const response = await this.fetch(url);
             if (!response.ok) {
-                throw new Error(`下载失败: ${response.status} ${response.statusText}`);
+                throw new DownloadError(this.messages.t("download.failed", { status: response.status, statusText: response.statusText }), response.status);
             }
 
-            const buffer = await response.arrayBuffer();
-            await writeFile(filePath, Buffer.from(buffer));
+            const buffer = Buffer.from(await response.arrayBuffer());
+            const hash = hashFileContent(buffer);
+            const filePath = join(attachmentsPath, `${hash}${this.extractExtension(url)}`);
 
-            const downloadedFile: DownloadedFile = {
+            if (!await this.exists(filePath)) {
+                await writeFile(filePath, buffer);
+            }
+            this.downloadCount++;
+
+            const durationMs = Date.now() - startTime;
+            const size = formatBytes(buffer.length);
+            this.logger.verbose?.(`  ${this.messages.t("export.fileFetched", { url: this.getCacheKey(url), size, duration: durationMs })}`, {
+                url: this.getCacheKey(url),
+                bytes: buffer.length,
+                durationMs,
+            });
+            this.onDownload?.({ url, bytes: buffer.length, durationMs });
+
+            return {
                 originalUrl: url,
                 localPath: filePath,
-                relativePath: relativePath,
             };
-
-            // 记录下载信息
-            this.downloadedFiles.set(url, downloadedFile);
-
-            return downloadedFile;
         } catch (error) {
-            console.error(`  ⚠️  文件下载失败 (${url}):`, error instanceof Error ? error.message : String(error));
+            this.logger.error(`  ${this.messages.t("export.fileDownloadFailed", { url, error: error instanceof Error ? error.message : String(error) })}`);
             throw error;
         }
     }
 
     /**
-     * 从 URL 提取文件名
-     * @param url - 文件 URL
-     * @returns 清理后的文件名
+     * 判断文件是否存在
+     * @param path - 文件路径
      */
-    private extractFileName(url: string): string {
+    private async exists(path: string): Promise<boolean> {
         try {
-            // 解析 URL
-            const urlObj = new URL(url);
-            const pathname = urlObj.pathname;
-
-            // 提取文件名（路径的最后一部分）
-            let fileName = pathname.split("/").pop() || "file";
-
-            // 解码 URL 编码
-            fileName = decodeURIComponent(fileName);
-
-            // 如果文件名没有扩展名，尝试从 URL 中猜测
-            if (!extname(fileName)) {
-                const match = url.match(/\.(\w{2,4})(\?|$)/);
-                if (match) {
-                    fileName += "." + match[1];
-                }
-            }
-
-            // 清理文件名，移除非法字符
-            fileName = this.sanitizeFileName(fileName);
-
-            // 如果文件名太长，截断（保留扩展名）
-            const ext = extname(fileName);
-            const baseName = fileName.substring(0, fileName.length - ext.length);
-            if (baseName.length > 100) {
-                fileName = baseName.substring(0, 100) + ext;
-            }
-
-            // 添加时间戳避免文件名冲突
-            const timestamp = Date.now();
-            const nameWithoutExt = fileName.substring(0, fileName.length - ext.length);
-            return `${nameWithoutExt}_${timestamp}${ext}`;
-        } catch (error) {
-            // 如果解析失败，使用时间戳作为文件名
-            return `file_${Date.now()}`;
+            await access(path);
+            return true;
+        } catch {
+            return false;
         }
     }
 
     /**
-     * 清理文件名中的非法字符
-     * @param fileName - 原始文件名
-     * @returns 清理后的文件名
+     * 从 URL 提取文件扩展名
+     * @param url - 文件 URL
+     * @returns 小写的扩展名(包含 "."),无法识别时返回空字符串
      */
-    private sanitizeFileName(fileName: string): string {
-        return fileName
-            .replace(/[<>:"/\\|?*]/g, "_") // 替换非法字符
-            .replace(/\s+/g, "_")          // 将空格替换为下划线
-            .trim();
+    private extractExtension(url: string): string {
+        let ext = "";
+        try {
+            ext = extname(decodeURIComponent(new URL(url).pathname));
+        } catch {
+            // 无法解析的 URL 从原始字符串中猜测
+        }
+
+        if (!ext) {
+            const match = url.match(/\.(\w{2,4})(\?|$)/);
+            ext = match ? `.${match[1]}` : "";
+        }
+
+        // 只保留常规扩展名,避免路径中的异常字符
+        return /^\.[A-Za-z0-9]{1,10}$/.test(ext) ? ext.toLowerCase() : "";
     }
 
     /**
@@ -131,6 +221,13 @@ export default class FileDownloader {
         return this.downloadedFiles;
     }
 
+    /**
+     * 获取本次实际下载的文件数量(不包括沿用的文件)
+     */
+    public getDownloadCount(): number {
+        return this.downloadCount;
+    }
+
     /**
      * 清空下载记录
      */
@@ -0,0 +1,232 @@
+import { posix } from "path";
+import type { ChildPageInfo } from "./NotionClient.js";
+import { normalizeNotionId } from "./LinkRewriter.js";
+import Messages, { defaultMessages } from "./Messages.js";
+
+/**
+ * 文件命名方式
+ * - title: 页面标题(默认)
+ * - title-shortid: 页面标题加 ID 前 8 位
+ * - id: 页面 ID
+ * - slug: 小写并以连字符连接的标题
+ */
+export type NamingStrategy = "title" | "title-shortid" | "id" | "slug";
+
+export const NAMING_STRATEGIES: NamingStrategy[] = ["title", "title-shortid", "id", "slug"];
+
+/**
+ * 根据 ID 获取上一次导出时分配的路径(相对输出目录,不含扩展名)
+ */
+export type PreviousPathLookup = (id: string) => string | undefined;
+
+/**
+ * 清理文件名中的非法字符
+ * @param fileName - 原始文件名
+ * @returns 清理后的文件名
+ */
+export function sanitizeFileName(fileName: string): string {
+    return fileName
+        .replace(/[<>:"/\\|?*]/g, "_") // 替换非法字符
+        .replace(/\s+/g, " ")          // 合并多个空格
+        .trim()
+        .substring(0, 200);            // 限制长度
+}
+
+/**
+ * 将标题转换为 slug(保留各语言的字母和数字)
+ * @param title - 页面标题
+ */
+export function slugify(title: string): string {
+    const slug = title
+        .normalize("NFKC")
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, "-")
+        .replace(/^-+|-+$/g, "")
+        .substring(0, 200);
+    return slug || "untitled";
+}
+
+/**
+ * 获取页面 ID 的前 8 位
+ * @param id - 页面 ID
+ */
+export function shortId(id: string): string {
+    return normalizeNotionId(id).substring(0, 8);
+}
+
+/**
+ * 数据库的详情目录名称
+ * @param name - 数据库文件名
+ * @param messages - 提供详情目录后缀的消息目录
+ */
+export function detailsDirName(name: string, messages: Messages = defaultMessages): string {
+    return `${name}${messages.t("content.detailsDirSuffix")}`;
+}
+
+interface DirectoryNames {
+    taken: Set<string>;             // 已占用的名称(小写,兼容不区分大小写的文件系统)
+    assigned: Map<string, string>;  // ID 到文件名的映射
+}
+
+/**
+ * 文件命名器 - 为同一目录下的页面和数据库分配唯一的文件名,并尽量沿用上一次导出的名称
+ */
+export default class FileNamer {
+    private strategy: NamingStrategy;
+    private previousPath: PreviousPathLookup;
+    private directories: Map<string, DirectoryNames> = new Map();
+    private messages: Messages;
+
+    constructor(
+        strategy: NamingStrategy = "title",
+        previousPath: PreviousPathLookup = () => undefined,
+        messages: Messages = defaultMessages
+    ) {
+        this.strategy = strategy;
+        this.previousPath = previousPath;
+        this.messages = messages;
+    }
+
+    /**
+     * 为同一目录下的页面和数据库分配文件名(不含扩展名),同一 ID 重复分配时返回相同名称,标题修改后重新分配
+     * 上一次导出时位于同一目录且仍与标题相符的名称优先保留,其余按顺序分配,重名时追加 ID 前 8 位
+     * @param dir - 目录(相对输出目录)
+     * @param items - 目录下的页面和数据库
+     * @returns ID 到文件名的映射
+     */
+    public assign(dir: string, items: ChildPageInfo[]): Map<string, string> {
+        let directory = this.directories.get(dir);
+        if (!directory) {
+            directory = { taken: new Set(), assigned: new Map() };
+            this.directories.set(dir, directory);
+        }
+
+        for (const item of items) {
+            const name = directory.assigned.get(item.id);
+            if (name !== undefined && !this.matchesTitle(name, item)) {
+                this.release(directory, name, item);
+            }
+        }
+
+        const pending = items.filter(item => !directory.assigned.has(item.id));
+
+        // 先保留上一次导出的名称,避免新增的同名页面抢占已有文件
+        for (const item of pending) {
+            const previous = this.previousPath(item.id);
+            if (!previous || posix.dirname(previous) !== (dir || ".")) {
+                continue;
+            }
+            const name = posix.basename(previous);
+            if (this.matchesTitle(name, item) && this.isAvailable(directory, name, item)) {
+                this.take(directory, name, item);
+            }
+        }
+
+        for (const item of pending) {
+            if (directory.assigned.has(item.id)) {
+                continue;
+            }
+            for (const name of this.candidates(item)) {
+                if (this.isAvailable(directory, name, item)) {
+                    this.take(directory, name, item);
+                    break;
+                }
+            }
+        }
+
+        const names = new Map<string, string>();
+        for (const item of items) {
+            names.set(item.id, directory.assigned.get(item.id)!);
+        }
+        return names;
+    }
+
+    /**
+     * 为单个页面或数据库分配文件名
+     * @param dir - 目录(相对输出目录)
+     * @param item - 页面或数据库
+     */
+    public assignOne(dir: string, item: ChildPageInfo): string {
+        return this.assign(dir, [item]).get(item.id)!;
+    }
+
+    /**
+     * 按命名方式生成的首选名称
+     */
+    private preferredName(item: ChildPageInfo): string {
+        const title = item.title || (item.type === "database" ? "Untitled Database" : "Untitled");
+
+        switch (this.strategy) {
+            case "title-shortid":
+                return `${sanitizeFileName(title)} ${shortId(item.id)}`;
+            case "id":
+                return normalizeNotionId(item.id);
+            case "slug":
+                return slugify(title);
+            default:
+                return sanitizeFileName(title);
+        }
+    }
+
+    /**
+     * 依次尝试的名称:首选名称、追加 ID 前 8 位、再追加序号
+     */
+    private *candidates(item: ChildPageInfo): Generator<string> {
+        const preferred = this.preferredName(item);
+        const separator = this.strategy === "slug" ? "-" : " ";
+        const withId = `${preferred}${separator}${shortId(item.id)}`;
+
+        yield preferred;
+        yield withId;
+        for (let index = 2; ; index++) {
+            yield `${withId}${separator}${index}`;
+        }
+    }
+
+    /**
+     * 上一次分配的名称是否仍由当前标题生成(标题修改后需要重新命名)
+     */
+    private matchesTitle(name: string, item: ChildPageInfo): boolean {
+        const preferred = this.preferredName(item);
+        const separator = this.strategy === "slug" ? "-" : " ";
+        return name === preferred || name.startsWith(`${preferred}${separator}${shortId(item.id)}`);
+    }
+
+    /**
+     * 名称占用的路径:页面占用 名称.md 和 名称/,数据库还占用详情目录
+     */
+    private occupiedKeys(name: string, item: ChildPageInfo): string[] {
+        const keys = [name.toLowerCase()];
+        if (item.type === "database") {
+            keys.push(detailsDirName(name, this.messages).toLowerCase());
+        }
+        return keys;
+    }
+
+    /**
+     * 名称占用的路径是否都未被同目录的其他页面使用
+     */
+    private isAvailable(directory: DirectoryNames, name: string, item: ChildPageInfo): boolean {
+        return this.occupiedKeys(name, item).every(key => !directory.taken.has(key));
+    }
+
+    /**
+     * 记录分配的名称并占用相应路径
+     */
+    private take(directory: DirectoryNames, name: string, item: ChildPageInfo): void {
+        for (const key of this.occupiedKeys(name, item)) {
+            directory.taken.add(key);
+        }
+        directory.assigned.set(item.id, name);
+    }
+
+    /**
+     * 释放已分配的名称
+     */
+    private release(directory: DirectoryNames, name: string, item: ChildPageInfo): void {
+        for (const key of this.occupiedKeys(name, item)) {
+            directory.taken.delete(key);
+        }
+        directory.assigned.delete(item.id);
+    }
+}
@@ -0,0 +1,85 @@
+import { stringify } from "yaml";
+import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+import { propertiesToValues, PropertyValue } from "./PropertyValues.js";
+
+/**
+ * 根据用户 ID 获取显示名称
+ */
+export type UserNameResolver = (userId: string) => Promise<string>;
+
+/**
+ * 获取页面图标(emoji 或图片 URL)
+ */
+function iconToValue(icon: PageObjectResponse["icon"]): string | null {
+    if (!icon) return null;
+
+    switch (icon.type) {
+        case "emoji":
+            return icon.emoji;
+        case "external":
+            return icon.external.url;
+        case "file":
+            return icon.file.url;
+        case "custom_emoji":
+            return icon.custom_emoji.url;
+        default:
+            return null;
+    }
+}
+
+/**
+ * 获取页面封面图片 URL
+ */
+function coverToValue(cover: PageObjectResponse["cover"]): string | null {
+    if (!cover) return null;
+    return cover.type === "external" ? cover.external.url : cover.file.url;
+}
+
+/**
+ * 获取父级(页面、数据库或块)ID,位于工作区顶层时返回 null
+ */
+function parentToValue(parent: PageObjectResponse["parent"]): string | null {
+    const value = (parent as Record<string, unknown>)[parent.type];
+    return typeof value === "string" ? value : null;
+}
+
+/**
+ * 生成页面的 YAML front matter 数据
+ * @param page - 完整的页面对象
+ * @param title - 页面标题
+ * @param resolveUserName - 用户名称解析函数
+ * @returns front matter 数据
+ */
+export async function pageToFrontMatterData(
+    page: PageObjectResponse,
+    title: string,
+    resolveUserName: UserNameResolver
+): Promise<Record<string, PropertyValue>> {
+    const [createdBy, lastEditedBy] = await Promise.all([
+        resolveUserName(page.created_by.id),
+        resolveUserName(page.last_edited_by.id),
+    ]);
+
+    return {
+        notion_id: page.id,
+        notion_url: page.url,
+        title,
+        created_time: page.created_time,
+        created_by: createdBy,
+        last_edited_time: page.last_edited_time,
+        last_edited_by: lastEditedBy,
+        icon: iconToValue(page.icon),
+        cover: coverToValue(page.cover),
+        parent_id: parentToValue(page.parent),
+        properties: propertiesToValues(page.properties),
+    };
+}
+
+/**
+ * 将数据序列化为 Markdown front matter 块
+ * @param data - front matter 数据
+ * @returns 以 --- 包围的 YAML 文本
+ */
+export function toFrontMatter(data: Record<string, PropertyValue>): string {
+    return `---\n${stringify(data, { lineWidth: 0 })}---\n\n`;
+}
@@ -0,0 +1,182 @@
+import { execFile } from "child_process";
+import { access } from "fs/promises";
+import { join } from "path";
+import { promisify } from "util";
+import type { ManifestChange, ManifestChangeType } from "./ExportManifest.js";
+import Messages, { defaultMessages } from "./Messages.js";
+
+const execFileAsync = promisify(execFile);
+
+export interface GitAuthor {
+    name: string;
+    email?: string;     // 为空时提交的作者邮箱为空
+}
+
+export interface GitCommitRequest {
+    message: string;
+    paths: string[];    // 相对输出目录的文件或目录路径,包括已删除的路径
+    author?: GitAuthor; // 默认为 git 配置的用户
+}
+
+/**
+ * git 命令执行失败
+ */
+export class GitError extends Error {
+    public readonly args: string[];
+
+    constructor(message: string, args: string[]) {
+        super(message);
+        this.name = "GitError";
+        this.args = args;
+    }
+}
+
+/**
+ * Git 提交器 - 只暂存并提交指定的路径,仓库中其他已暂存或未暂存的改动不受影响
+ */
+export default class GitCommitter {
+    private cwd: string;
+    private messages: Messages;
+
+    /**
+     * @param outputDir - 导出目录(位于 git 仓库中)
+     * @param messages - 错误信息使用的消息目录
+     */
+    constructor(outputDir: string, messages: Messages = defaultMessages) {
+        this.cwd = outputDir;
+        this.messages = messages;
+    }
+
+    /**
+     * 确认导出目录位于 git 仓库的工作区中
+     */
+    public async ensureRepository(): Promise<void> {
+        try {
+            await this.git(["rev-parse", "--is-inside-work-tree"]);
+        } catch {
+            throw new Error(this.messages.t("git.notRepository", { dir: this.cwd }));
+        }
+    }
+
+    /**
+     * 暂存指定路径的改动(包括删除)并提交
+     * @param request - 提交信息、路径和作者
+     * @returns 提交的哈希,路径没有改动时返回 undefined
+     */
+    public async commit(request: GitCommitRequest): Promise<string | undefined> {
+        const staged = await this.stage(request.paths);
+        if (staged.length === 0) {
+            return undefined;
+        }
+
+        const args = ["commit", "--quiet", "--only", "--message", request.message];
+        if (request.author) {
+            args.push(`--author=${request.author.name} <${request.author.email ?? ""}>`);
+        }
+        await this.git([...args, "--", ...staged]);
+        return (await this.git(["rev-parse", "HEAD"])).trim();
+    }
+
+    /**
+     * 暂存路径的改动,已不存在的路径从索引中删除
+     * @param paths - 相对输出目录的路径
+     * @returns 有改动的文件(相对输出目录)
+     */
+    private async stage(paths: string[]): Promise<string[]> {
+        if (paths.length === 0) {
+            return [];
+        }
+
+        const existing: string[] = [];
+        const missing: string[] = [];
+        for (const path of paths) {
+            (await this.exists(path) ? existing : missing).push(path);
+        }
+
+        if (existing.length > 0) {
+            await this.git(["add", "--all", "--", ...existing]);
+        }
+        if (missing.length > 0) {
+            await this.git(["rm", "-r", "--quiet", "--cached", "--ignore-unmatch", "--", ...missing]);
+        }
+
+        const output = await this.git(["diff", "--cached", "--relative", "--name-only", "--no-renames", "-z", "--", ...paths]);
+        return output.split("\0").filter(Boolean);
+    }
+
+    /**
+     * 在导出目录中执行 git 命令,路径参数不作为通配符解析
+     * @param args - 命令参数
+     * @returns 标准输出
+     */
+    private async git(args: string[]): Promise<string> {
+        try {
+            const { stdout } = await execFileAsync("git", ["--literal-pathspecs", ...args], {
+                cwd: this.cwd,
+                maxBuffer: 64 * 1024 * 1024,
+            });
+            return stdout;
+        } catch (error) {
+            const stderr = (error as { stderr?: string }).stderr?.trim();
+            const message = stderr || (error instanceof Error ? error.message : String(error));
+            throw new GitError(this.messages.t("git.failed", { command: args[0], error: message }), args);
+        }
+    }
+
+    /**
+     * 判断相对输出目录的路径是否存在
+     * @param path - 相对路径
+     */
+    private async exists(path: string): Promise<boolean> {
+        try {
+            await access(join(this.cwd, path));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+}
+
+/**
+ * 生成一次导出的提交信息:标题为各类变化的数量,正文按类型列出页面
+ * @param changes - 页面和数据库的变化
+ * @param messages - 提交信息使用的文字
+ * @returns 提交信息
+ */
+export function formatCommitMessage(changes: ManifestChange[], messages: Messages = defaultMessages): string {
+    if (changes.length === 0) {
+        return messages.t("git.noChanges");
+    }
+
+    const types: ManifestChangeType[] = ["added", "updated", "removed", "moved"];
+    const count = (type: ManifestChangeType) => changes.filter(change => change.type === type).length;
+    const lines = [messages.t("git.summary", {
+        added: count("added"),
+        updated: count("updated"),
+        removed: count("removed"),
+        moved: count("moved"),
+    })];
+
+    for (const type of types) {
+        const matching = changes.filter(change => change.type === type);
+        if (matching.length === 0) {
+            continue;
+        }
+        lines.push("", `${messages.t(`change.${type}`)}:`);
+        for (const change of matching) {
+            lines.push(`- ${change.previousPath ? `${change.previousPath} → ${change.path}` : change.path}`);
+        }
+    }
+    return lines.join("\n");
+}
+
+/**
+ * 生成单个页面的提交信息
+ * @param change - 页面的变化
+ * @param messages - 提交信息使用的文字
+ * @returns 提交信息
+ */
+export function formatPageCommitMessage(change: ManifestChange, messages: Messages = defaultMessages): string {
+    const path = change.previousPath ? `${change.previousPath} → ${change.path}` : change.path;
+    return `notion-pull: ${messages.t(`change.${change.type}`)} ${path}`;
+}
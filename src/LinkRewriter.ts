@@ -0,0 +1,219 @@
+import { readFile, writeFile } from "fs/promises";
+import { join, posix } from "path";
+import type ExportManifest from "./ExportManifest.js";
+import { isTableRow, OutputFlavor, toWikilink } from "./ObsidianMarkdown.js";
+import Messages, { defaultMessages } from "./Messages.js";
+
+/**
+ * 指向未导出页面的 Notion 链接的处理方式
+ * - keep: 保留原始 URL
+ * - mark: 保留 URL 并添加未导出标记
+ * - strip: 移除链接,仅保留文本
+ */
+export type ExternalLinkMode = "keep" | "mark" | "strip";
+
+export const EXTERNAL_LINK_MODES: ExternalLinkMode[] = ["keep", "mark", "strip"];
+
+// 匹配 Obsidian wikilink(不含嵌入): [[路径#标题|别名]],表格中的别名分隔符为 \|
+const WIKILINK_REGEX = /(?<!!)\[\[([^\]|#\\]+)(#[^\]|]*)?(?:\\?\|([^\]]*))?\]\]/g;
+
+// Notion 页面 URL: notion.so、*.notion.site 或工作区内的相对路径
+const NOTION_URL_REGEX = /^(?:https?:\/\/(?:www\.)?notion\.so|https?:\/\/[\w-]+\.notion\.site)?\/[^?#\s]*$/i;
+
+/**
+ * 规范化 Notion ID(去掉连字符并转为小写)
+ * @param id - 页面 ID
+ */
+export function normalizeNotionId(id: string): string {
+    return id.replace(/-/g, "").toLowerCase();
+}
+
+/**
+ * 从 Notion 页面链接中提取页面 ID
+ * @param url - 链接地址
+ * @returns 规范化后的页面 ID,不是 Notion 页面链接时返回 undefined
+ */
+export function extractNotionPageId(url: string): string | undefined {
+    const path = url.split(/[?#]/)[0];
+    if (!NOTION_URL_REGEX.test(path)) {
+        return undefined;
+    }
+
+    const matches = path.match(/[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}/gi);
+    return matches ? normalizeNotionId(matches[matches.length - 1]) : undefined;
+}
+
+/**
+ * 将相对路径转换为 Markdown 链接地址(逐段编码)
+ * @param path - 使用 / 分隔的相对路径
+ */
+export function toMarkdownHref(path: string): string {
+    return path.split("/").map(segment => encodeURIComponent(segment)).join("/");
+}
+
+interface LinkTarget {
+    title: string;
+    outputPath: string;
+}
+
+/**
+ * 内部链接重写器 - 在导出完成后将指向已导出页面的 Notion 链接替换为相对路径
+ */
+export default class LinkRewriter {
+    private outputDir: string;
+    private manifest: ExportManifest;
+    private externalLinks: ExternalLinkMode;
+    private flavor: OutputFlavor;
+    private externalMarker: string;
+    private linkRegex: RegExp;
+    private targets: Map<string, LinkTarget> = new Map();
+    private idsByPath: Map<string, string> = new Map();
+    private previousIdsByPath: Map<string, string> = new Map();
+
+    constructor(
+        outputDir: string,
+        manifest: ExportManifest,
+        externalLinks: ExternalLinkMode = "keep",
+        flavor: OutputFlavor = "markdown",
+        messages: Messages = defaultMessages
+    ) {
+        this.outputDir = outputDir;
+        this.manifest = manifest;
+        this.externalLinks = externalLinks;
+        this.flavor = flavor;
+        this.externalMarker = ` _(${messages.t("content.notExported")})_`;
+
+        // 匹配 Markdown 链接(不含图片),以及上一次导出时(可能为其他语言)添加的未导出标记
+        const markers = messages.variants("content.notExported")
+            .map(text => ` _(${text})_`.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+            .join("|");
+        this.linkRegex = new RegExp(`(?<!!)\\[([^\\]]*)\\]\\(([^)\\s]+)\\)(?:${markers})?`, "g");
+
+        // 建立页面 ID 到输出文件的映射(包括增量模式下沿用的页面)
+        for (const entry of manifest.entries()) {
+            // 没有详情文件的数据库条目链接到所属数据库的表格
+            const tablePath = entry.databaseId ? manifest.get(entry.databaseId)?.outputPath : undefined;
+            if (!entry.outputPath && tablePath) {
+                this.targets.set(normalizeNotionId(entry.id), { title: entry.title, outputPath: tablePath });
+            }
+
+            if (entry.outputPath) {
+                this.targets.set(normalizeNotionId(entry.id), { title: entry.title, outputPath: entry.outputPath });
+                this.idsByPath.set(entry.outputPath, normalizeNotionId(entry.id));
+                const previousPath = manifest.getPrevious(entry.id)?.outputPath;
+                if (previousPath) {
+                    this.previousIdsByPath.set(previousPath, normalizeNotionId(entry.id));
+                }
+            }
+        }
+    }
+
+    /**
+     * 重写清单中所有已写入文件的链接
+     * @returns 发生变化的文件(相对输出目录)
+     */
+    public async rewriteAll(): Promise<string[]> {
+        const changedFiles: string[] = [];
+
+        for (const entry of this.manifest.entries()) {
+            if (!entry.outputPath) {
+                continue;
+            }
+
+            const filePath = join(this.outputDir, entry.outputPath);
+            const markdown = await readFile(filePath, "utf-8");
+            // 沿用的文件中已有的相对链接可能因目标页面移动而失效,需要重新计算
+            const rewritten = this.rewrite(markdown, entry.outputPath, this.manifest.isCarriedOver(entry.id));
+
+            if (rewritten !== markdown) {
+                await writeFile(filePath, rewritten, "utf-8");
+                changedFiles.push(entry.outputPath);
+            }
+        }
+
+        return changedFiles;
+    }
+
+    /**
+     * 重写单个 Markdown 文档中的链接
+     * @param markdown - Markdown 内容
+     * @param outputPath - 文档相对输出目录的路径
+     * @param remapRelativeLinks - 是否根据上一次的路径重新计算已有的相对链接
+     * @returns 重写后的 Markdown 内容
+     */
+    public rewrite(markdown: string, outputPath: string, remapRelativeLinks: boolean = false): string {
+        const fromDir = posix.dirname(outputPath);
+
+        // Obsidian 风格下,新生成的相对链接(数据库详情、所属页面等)也需要转换为 wikilink
+        const relativeLinkIds = remapRelativeLinks
+            ? this.previousIdsByPath
+            : this.flavor === "obsidian" ? this.idsByPath : undefined;
+
+        const rewritten = markdown.replace(this.linkRegex, (match, text: string, href: string, offset: number) => {
+            const pageId = extractNotionPageId(href)
+                ?? (relativeLinkIds ? this.resolveRelativeLink(href, fromDir, relativeLinkIds) : undefined);
+
+            if (!pageId) {
+                return match;
+            }
+
+            const target = this.targets.get(pageId);
+            if (target) {
+                // link_to_page 块没有链接文本,使用目标页面标题
+                const linkText = text === "link_to_page" || text === "" ? target.title : text;
+                if (this.flavor === "obsidian") {
+                    return toWikilink(target.outputPath, linkText, isTableRow(markdown, offset));
+                }
+                const relativePath = posix.relative(fromDir, target.outputPath);
+                return `[${linkText}](${toMarkdownHref(relativePath)})`;
+            }
+
+            if (extractNotionPageId(href) === undefined) {
+                // 相对链接指向的页面已不在本次导出中,保持原样
+                return match;
+            }
+
+            switch (this.externalLinks) {
+                case "strip":
+                    return text;
+                case "mark":
+                    return `[${text}](${href})${this.externalMarker}`;
+                default:
+                    return `[${text}](${href})`;
+            }
+        });
+
+        if (this.flavor !== "obsidian" || !remapRelativeLinks) {
+            return rewritten;
+        }
+
+        // 沿用的文件中已有的 wikilink 指向上一次的路径,目标页面移动后需要更新
+        return rewritten.replace(WIKILINK_REGEX, (match, path: string, heading: string | undefined, alias: string | undefined, offset: number) => {
+            const pageId = this.previousIdsByPath.get(`${path}.md`);
+            const target = pageId ? this.targets.get(pageId) : undefined;
+            if (!target) {
+                return match;
+            }
+            return toWikilink(target.outputPath, alias ?? target.title, isTableRow(rewritten, offset), heading);
+        });
+    }
+
+    /**
+     * 解析相对链接指向的页面
+     * @param href - 链接地址
+     * @param fromDir - 文档所在目录
+     * @param idsByPath - 输出路径到页面 ID 的映射
+     */
+    private resolveRelativeLink(href: string, fromDir: string, idsByPath: Map<string, string>): string | undefined {
+        if (/^[a-z][a-z\d+.-]*:/i.test(href) || href.startsWith("#") || !href.split("#")[0].endsWith(".md")) {
+            return undefined;
+        }
+
+        try {
+            const decoded = decodeURIComponent(href.split("#")[0]);
+            return idsByPath.get(posix.normalize(posix.join(fromDir, decoded)));
+        } catch {
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,689 @@
+import type { BlockObjectRequest, LanguageRequest, RichTextItemRequest } from "@notionhq/client/build/src/api-endpoints";
+
+/**
+ * Markdown 解析出的 Notion 块,子块单独保存(推送时逐层追加)
+ */
+export interface MarkdownBlock {
+    type: string;                       // Notion 块类型
+    content: Record<string, unknown>;   // 块类型对应的内容,不含子块
+    children: MarkdownBlock[];
+    localFile?: string;                 // 需要上传的本地文件(Markdown 中的相对路径,已解码)
+}
+
+export interface MarkdownParseOptions {
+    /**
+     * 将相对链接(如指向其他 Markdown 文件的链接)转换为绝对地址,无法转换时链接只保留文本
+     */
+    resolveLink?: (href: string) => string | undefined;
+}
+
+interface Annotations {
+    bold: boolean;
+    italic: boolean;
+    strikethrough: boolean;
+    underline: boolean;
+    code: boolean;
+}
+
+const PLAIN: Annotations = { bold: false, italic: false, strikethrough: false, underline: false, code: false };
+
+// Notion 单个富文本片段的最大长度
+const MAX_TEXT_LENGTH = 2000;
+
+const CODE_LANGUAGES: LanguageRequest[] = [
+    "abap", "abc", "agda", "arduino", "ascii art", "assembly", "bash", "basic", "bnf", "c", "c#", "c++", "clojure",
+    "coffeescript", "coq", "css", "dart", "dhall", "diff", "docker", "ebnf", "elixir", "elm", "erlang", "f#", "flow",
+    "fortran", "gherkin", "glsl", "go", "graphql", "groovy", "haskell", "hcl", "html", "idris", "java", "javascript",
+    "json", "julia", "kotlin", "latex", "less", "lisp", "livescript", "llvm ir", "lua", "makefile", "markdown", "markup",
+    "matlab", "mathematica", "mermaid", "nix", "notion formula", "objective-c", "ocaml", "pascal", "perl", "php",
+    "plain text", "powershell", "prolog", "protobuf", "purescript", "python", "r", "racket", "reason", "ruby", "rust",
+    "sass", "scala", "scheme", "scss", "shell", "smalltalk", "solidity", "sql", "swift", "toml", "typescript", "vb.net",
+    "verilog", "vhdl", "visual basic", "webassembly", "xml", "yaml", "java/c/c++/c#",
+];
+
+// 代码块语言的常用别名
+const LANGUAGE_ALIASES: Record<string, LanguageRequest> = {
+    js: "javascript",
+    jsx: "javascript",
+    ts: "typescript",
+    tsx: "typescript",
+    sh: "shell",
+    zsh: "shell",
+    py: "python",
+    rb: "ruby",
+    rs: "rust",
+    yml: "yaml",
+    md: "markdown",
+    dockerfile: "docker",
+    cs: "c#",
+    cpp: "c++",
+    kt: "kotlin",
+    tex: "latex",
+    text: "plain text",
+    txt: "plain text",
+    plaintext: "plain text",
+};
+
+// Obsidian 标注和 admonition 类型对应的图标
+const CALLOUT_ICONS: Record<string, string> = {
+    note: "📝",
+    tip: "💡",
+    hint: "💡",
+    info: "ℹ️",
+    warning: "⚠️",
+    caution: "⚠️",
+    danger: "🚨",
+    error: "❗",
+    success: "✅",
+    question: "❓",
+};
+
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING_REGEX = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const DIVIDER_REGEX = /^ {0,3}([-*_])(?: *\1){2,} *$/;
+const LIST_REGEX = /^( *)([-*+]|\d+[.)])\s+(.*)$/;
+const QUOTE_REGEX = /^ {0,3}>/;
+const TABLE_SEPARATOR_REGEX = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const IMAGE_REGEX = /^!\[((?:\\.|[^\]\\])*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)$/;
+const FILE_LINK_REGEX = /^\[((?:\\.|[^\]\\])*)\]\(\s*<?([^)\s>]+)>?\s*\)$/;
+const IFRAME_REGEX = /^<iframe\s[^>]*src="([^"]+)"[^>]*>\s*(?:<\/iframe>)?$/i;
+const EMOJI_REGEX = /^(\p{Extended_Pictographic}(?:️|‍\p{Extended_Pictographic})*)\s*/u;
+
+/**
+ * 将 Markdown 转换为 Notion 块
+ * 支持标题、段落、列表、待办、引用、标注(Obsidian 标注、admonition 和以 emoji 开头的引用)、
+ * 折叠块(<details>)、代码块、公式、分隔线、表格、图片、文件链接和 iframe 嵌入
+ * @param markdown - Markdown 内容(不含 front matter)
+ * @param options - 解析选项
+ * @returns Notion 块
+ */
+export function markdownToBlocks(markdown: string, options: MarkdownParseOptions = {}): MarkdownBlock[] {
+    const lines = markdown
+        .replace(/\r\n?/g, "\n")
+        .split("\n")
+        .map(line => line.replace(/^\t+/, tabs => "    ".repeat(tabs.length)));
+    return parseBlocks(lines, options);
+}
+
+/**
+ * 将行内 Markdown 转换为 Notion 富文本
+ * 支持加粗、斜体、删除线、下划线(<u>)、行内代码、行内公式和链接
+ * @param text - 行内 Markdown
+ * @param options - 解析选项
+ * @returns 富文本
+ */
+export function parseRichText(text: string, options: MarkdownParseOptions = {}): RichTextItemRequest[] {
+    return parseInline(text, PLAIN, undefined, options);
+}
+
+/**
+ * 生成推送时使用的块请求,表格行随表格一起创建,其他子块需要逐层追加
+ * @param block - Markdown 块
+ * @returns 块请求
+ */
+export function toBlockRequest(block: MarkdownBlock): BlockObjectRequest {
+    const content = block.type === "table"
+        ? { ...block.content, children: block.children.map(toBlockRequest) }
+        : block.content;
+    return { object: "block", type: block.type, [block.type]: content } as unknown as BlockObjectRequest;
+}
+
+/**
+ * 解析块级 Markdown
+ */
+function parseBlocks(lines: string[], options: MarkdownParseOptions): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = [];
+    let index = 0;
+
+    while (index < lines.length) {
+        const line = lines[index];
+        const trimmed = line.trim();
+
+        if (trimmed === "") {
+            index++;
+            continue;
+        }
+
+        // 代码块
+        const fence = line.match(FENCE_REGEX);
+        if (fence) {
+            const marker = fence[1];
+            const code: string[] = [];
+            index++;
+            while (index < lines.length && !(lines[index].trim().startsWith(marker) && lines[index].trim().replace(/[`~]/g, "") === "")) {
+                code.push(lines[index]);
+                index++;
+            }
+            index++;
+            blocks.push(block("code", { rich_text: plainText(code.join("\n")), language: toLanguage(fence[2]) }));
+            continue;
+        }
+
+        // 公式块:$$ 单独一行或 $$表达式$$
+        if (trimmed.startsWith("$$")) {
+            const single = trimmed.match(/^\$\$(.+)\$\$$/);
+            if (single) {
+                blocks.push(block("equation", { expression: single[1].trim() }));
+                index++;
+                continue;
+            }
+            if (trimmed === "$$") {
+                const expression: string[] = [];
+                index++;
+                while (index < lines.length && lines[index].trim() !== "$$") {
+                    expression.push(lines[index]);
+                    index++;
+                }
+                index++;
+                blocks.push(block("equation", { expression: expression.join("\n").trim() }));
+                continue;
+            }
+        }
+
+        const heading = line.match(HEADING_REGEX);
+        if (heading) {
+            const level = Math.min(heading[1].length, 3);
+            blocks.push(block(`heading_${level}`, { rich_text: parseRichText(heading[2], options) }));
+            index++;
+            continue;
+        }
+
+        if (DIVIDER_REGEX.test(line)) {
+            blocks.push(block("divider", {}));
+            index++;
+            continue;
+        }
+
+        // 引用和标注
+        if (QUOTE_REGEX.test(line)) {
+            const quoted: string[] = [];
+            while (index < lines.length && QUOTE_REGEX.test(lines[index])) {
+                quoted.push(lines[index].replace(/^ {0,3}> ?/, ""));
+                index++;
+            }
+            blocks.push(quoteToBlock(quoted, options));
+            continue;
+        }
+
+        // admonition(!!! type),内容缩进 4 个空格
+        const admonition = trimmed.match(/^!!!\s+(\w+)(?:\s+"([^"]*)")?/);
+        if (admonition) {
+            index++;
+            const { body, next } = collectIndented(lines, index, 0);
+            index = next;
+            const title = admonition[2] ? [admonition[2]] : [];
+            blocks.push(calloutBlock(CALLOUT_ICONS[admonition[1].toLowerCase()] ?? "📝", [...title, ...body], options));
+            continue;
+        }
+
+        // 折叠块
+        if (/^<details>/i.test(trimmed)) {
+            const { summary, body, next } = collectDetails(lines, index);
+            index = next;
+            const toggle = block("toggle", { rich_text: parseRichText(summary, options) });
+            toggle.children = parseBlocks(body, options);
+            blocks.push(toggle);
+            continue;
+        }
+
+        // 列表
+        const list = line.match(LIST_REGEX);
+        if (list) {
+            const [, indent, marker, text] = list;
+            index++;
+            const { body, next } = collectIndented(lines, index, indent.length);
+            index = next;
+            blocks.push(listItemBlock(marker, text, body, options));
+            continue;
+        }
+
+        // 表格
+        if (trimmed.startsWith("|") && index + 1 < lines.length && TABLE_SEPARATOR_REGEX.test(lines[index + 1])) {
+            const rows = [splitTableRow(trimmed)];
+            index += 2;
+            while (index < lines.length && lines[index].trim().startsWith("|")) {
+                rows.push(splitTableRow(lines[index].trim()));
+                index++;
+            }
+            blocks.push(tableBlock(rows, options));
+            continue;
+        }
+
+        // 单独一行的图片、文件链接或 iframe
+        const media = mediaBlock(trimmed, options);
+        if (media) {
+            blocks.push(media);
+            index++;
+            continue;
+        }
+
+        // 段落:直到空行或其他块开始
+        const paragraph: string[] = [];
+        while (index < lines.length && lines[index].trim() !== "" && (paragraph.length === 0 || !startsBlock(lines, index))) {
+            paragraph.push(lines[index].trim().replace(/\\$/, ""));
+            index++;
+        }
+        blocks.push(block("paragraph", { rich_text: parseRichText(paragraph.join("\n"), options) }));
+    }
+
+    return blocks;
+}
+
+/**
+ * 判断行是否开始一个新的块(用于结束段落)
+ */
+function startsBlock(lines: string[], index: number): boolean {
+    const line = lines[index];
+    const trimmed = line.trim();
+    return FENCE_REGEX.test(line)
+        || HEADING_REGEX.test(line)
+        || DIVIDER_REGEX.test(line)
+        || QUOTE_REGEX.test(line)
+        || LIST_REGEX.test(line)
+        || trimmed === "$$"
+        || /^<details>/i.test(trimmed)
+        || IMAGE_REGEX.test(trimmed)
+        || (trimmed.startsWith("|") && index + 1 < lines.length && TABLE_SEPARATOR_REGEX.test(lines[index + 1]));
+}
+
+/**
+ * 收集缩进超过指定宽度的后续行(列表项和 admonition 的子内容),并去掉公共缩进
+ * @param lines - 所有行
+ * @param start - 开始位置
+ * @param indent - 父级的缩进宽度
+ */
+function collectIndented(lines: string[], start: number, indent: number): { body: string[]; next: number } {
+    let index = start;
+    const body: string[] = [];
+    while (index < lines.length) {
+        const line = lines[index];
+        if (line.trim() === "") {
+            // 空行之后仍有缩进内容时继续收集
+            const nextLine = lines.slice(index + 1).find(candidate => candidate.trim() !== "");
+            if (nextLine === undefined || leadingSpaces(nextLine) <= indent) {
+                break;
+            }
+            body.push("");
+            index++;
+            continue;
+        }
+        if (leadingSpaces(line) <= indent) {
+            break;
+        }
+        body.push(line);
+        index++;
+    }
+
+    const common = Math.min(...body.filter(line => line.trim() !== "").map(leadingSpaces));
+    return { body: body.map(line => line.substring(Math.min(common, leadingSpaces(line)))), next: index };
+}
+
+/**
+ * 收集 <details> 折叠块的标题和内容(支持嵌套)
+ */
+function collectDetails(lines: string[], start: number): { summary: string; body: string[]; next: number } {
+    let summary: string | undefined;
+    const body: string[] = [];
+    let depth = 1;
+    let index = start + 1;
+    let line = lines[start].trim().replace(/^<details>/i, "");
+
+    for (;;) {
+        if (summary === undefined && body.length === 0) {
+            const match = line.trim().match(/^<summary>(.*?)<\/summary>(.*)$/i);
+            if (match) {
+                summary = match[1].trim();
+                line = match[2];
+            }
+        }
+        if (/^\s*<details>/i.test(line)) {
+            depth++;
+        }
+        if (/<\/details>\s*$/i.test(line)) {
+            depth--;
+            if (depth === 0) {
+                const rest = line.replace(/<\/details>\s*$/i, "");
+                if (rest.trim()) {
+                    body.push(rest);
+                }
+                break;
+            }
+        }
+        if (line.trim() || body.length > 0) {
+            body.push(line);
+        }
+        if (index >= lines.length) {
+            break;
+        }
+        line = lines[index];
+        index++;
+    }
+
+    return { summary: summary ?? "", body, next: index };
+}
+
+/**
+ * 将引用内容转换为引用块或标注块
+ * 以 [!type] 开头时为 Obsidian 标注,以 emoji 开头时为带图标的标注
+ */
+function quoteToBlock(quoted: string[], options: MarkdownParseOptions): MarkdownBlock {
+    const first = quoted[0].trim();
+    const obsidian = first.match(/^\[!(\w+)\][-+]?\s*(.*)$/);
+    if (obsidian) {
+        const rest = obsidian[2] ? [obsidian[2], ...quoted.slice(1)] : quoted.slice(1);
+        const firstContent = rest.find(line => line.trim() !== "")?.trim() ?? "";
+        const emoji = firstContent.match(EMOJI_REGEX);
+        if (emoji) {
+            const position = rest.findIndex(line => line.trim() !== "");
+            rest[position] = firstContent.substring(emoji[0].length);
+            return calloutBlock(emoji[1], rest, options);
+        }
+        return calloutBlock(CALLOUT_ICONS[obsidian[1].toLowerCase()] ?? "📝", rest, options);
+    }
+
+    const emoji = first.match(EMOJI_REGEX);
+    if (emoji) {
+        return calloutBlock(emoji[1], [first.substring(emoji[0].length), ...quoted.slice(1)], options);
+    }
+
+    const { text, children } = splitFirstParagraph(quoted, options);
+    const quote = block("quote", { rich_text: text });
+    quote.children = children;
+    return quote;
+}
+
+/**
+ * 生成标注块,第一段为标注文本,其余内容为子块
+ */
+function calloutBlock(emoji: string, lines: string[], options: MarkdownParseOptions): MarkdownBlock {
+    const { text, children } = splitFirstParagraph(lines, options);
+    const callout = block("callout", { rich_text: text, icon: { type: "emoji", emoji } });
+    callout.children = children;
+    return callout;
+}
+
+/**
+ * 将内容的第一段转换为富文本,其余内容转换为子块
+ */
+function splitFirstParagraph(lines: string[], options: MarkdownParseOptions): { text: RichTextItemRequest[]; children: MarkdownBlock[] } {
+    const start = lines.findIndex(line => line.trim() !== "");
+    if (start === -1) {
+        return { text: [], children: [] };
+    }
+
+    let end = start;
+    while (end < lines.length && lines[end].trim() !== "" && (end === start || !startsBlock(lines, end))) {
+        end++;
+    }
+    // 第一段本身是其他块(如列表)时全部作为子块
+    if (startsBlock(lines, start)) {
+        return { text: [], children: parseBlocks(lines.slice(start), options) };
+    }
+
+    const paragraph = lines.slice(start, end).map(line => line.trim().replace(/\\$/, "")).join("\n");
+    return { text: parseRichText(paragraph, options), children: parseBlocks(lines.slice(end), options) };
+}
+
+/**
+ * 生成列表项、编号列表项或待办块
+ */
+function listItemBlock(marker: string, text: string, body: string[], options: MarkdownParseOptions): MarkdownBlock {
+    let item: MarkdownBlock;
+    const todo = text.match(/^\[([ xX])\]\s+(.*)$/);
+    if (todo && !/^\d/.test(marker)) {
+        item = block("to_do", { rich_text: parseRichText(todo[2], options), checked: todo[1] !== " " });
+    } else {
+        const type = /^\d/.test(marker) ? "numbered_list_item" : "bulleted_list_item";
+        item = block(type, { rich_text: parseRichText(text, options) });
+    }
+    item.children = parseBlocks(body, options);
+    return item;
+}
+
+/**
+ * 拆分表格行的单元格(忽略转义的 |)
+ */
+function splitTableRow(line: string): string[] {
+    const cells = line.replace(/^\|/, "").replace(/\|$/, "").split(/(?<!\\)\|/);
+    return cells.map(cell => cell.trim().replace(/\\\|/g, "|"));
+}
+
+/**
+ * 生成表格块,第一行为表头
+ */
+function tableBlock(rows: string[][], options: MarkdownParseOptions): MarkdownBlock {
+    const width = rows[0].length;
+    const table = block("table", { table_width: width, has_column_header: true, has_row_header: false });
+    table.children = rows.map(row => {
+        const cells = Array.from({ length: width }, (_, column) => parseRichText(row[column] ?? "", options));
+        return block("table_row", { cells });
+    });
+    return table;
+}
+
+/**
+ * 解析单独一行的图片、本地文件链接或 iframe 嵌入
+ */
+function mediaBlock(line: string, options: MarkdownParseOptions): MarkdownBlock | undefined {
+    const image = line.match(IMAGE_REGEX);
+    if (image) {
+        const [, alt, href] = image;
+        // 导出时图片没有说明会使用文件名作为替代文本
+        const caption = alt === "image" || /^[^/\\&?]+\.\w{3,4}$/.test(alt) ? [] : parseRichText(alt, options);
+        if (isLocalPath(href)) {
+            return { ...block("image", { caption }), localFile: decodePath(href) };
+        }
+        return block("image", { type: "external", external: { url: href }, caption });
+    }
+
+    // 导出时书签和嵌入写为 [bookmark](url) 和 [embed](url)
+    const file = line.match(FILE_LINK_REGEX);
+    if (file && (file[1] === "bookmark" || file[1] === "embed") && !isLocalPath(file[2])) {
+        return block(file[1], file[1] === "bookmark" ? { url: file[2], caption: [] } : { url: file[2] });
+    }
+
+    // 指向本地非 Markdown 文件的链接作为附件上传
+    if (file && isLocalPath(file[2]) && !/\.md(?:#.*)?$/i.test(file[2])) {
+        const path = decodePath(file[2]);
+        const name = file[1].replace(/\\(.)/g, "$1") || path.split("/").pop()!;
+        return { ...block("file", { caption: [], name }), localFile: path };
+    }
+
+    const iframe = line.match(IFRAME_REGEX);
+    if (iframe) {
+        return block("embed", { url: iframe[1].replace(/&quot;/g, "\"").replace(/&amp;/g, "&") });
+    }
+
+    return undefined;
+}
+
+/**
+ * 解析行内 Markdown
+ * @param text - 行内 Markdown
+ * @param annotations - 当前的文本样式
+ * @param link - 当前的链接地址
+ * @param options - 解析选项
+ */
+function parseInline(text: string, annotations: Annotations, link: string | undefined, options: MarkdownParseOptions): RichTextItemRequest[] {
+    const items: RichTextItemRequest[] = [];
+    let buffer = "";
+    const flush = () => {
+        if (buffer) {
+            items.push(...textItems(buffer, annotations, link));
+            buffer = "";
+        }
+    };
+
+    let index = 0;
+    while (index < text.length) {
+        const char = text[index];
+        const rest = text.substring(index);
+
+        // 转义字符
+        if (char === "\\" && /^[\\`*_{}[\]()#+\-.!~$|<>]$/.test(text[index + 1] ?? "")) {
+            buffer += text[index + 1];
+            index += 2;
+            continue;
+        }
+
+        // 行内代码
+        if (char === "`") {
+            const end = text.indexOf("`", index + 1);
+            if (end > index + 1) {
+                flush();
+                items.push(...textItems(text.substring(index + 1, end), { ...annotations, code: true }, link));
+                index = end + 1;
+                continue;
+            }
+        }
+
+        // 行内公式
+        if (char === "$") {
+            const equation = rest.match(/^\$([^\s$](?:[^$]*[^\s$])?)\$(?!\d)/);
+            if (equation) {
+                flush();
+                items.push({ type: "equation", equation: { expression: equation[1] }, annotations: { ...annotations } });
+                index += equation[0].length;
+                continue;
+            }
+        }
+
+        // 下划线
+        if (rest.startsWith("<u>")) {
+            const end = text.indexOf("</u>", index + 3);
+            if (end !== -1) {
+                flush();
+                items.push(...parseInline(text.substring(index + 3, end), { ...annotations, underline: true }, link, options));
+                index = end + 4;
+                continue;
+            }
+        }
+
+        // 加粗、删除线和斜体
+        const delimiter = ["**", "__", "~~"].find(candidate => rest.startsWith(candidate))
+            ?? (char === "*" || char === "_" ? char : undefined);
+        if (delimiter) {
+            const end = findClosing(text, index, delimiter);
+            if (end !== -1) {
+                flush();
+                const style: Partial<Annotations> = delimiter === "~~"
+                    ? { strikethrough: true }
+                    : delimiter.length === 2 ? { bold: true } : { italic: true };
+                const inner = text.substring(index + delimiter.length, end);
+                items.push(...parseInline(inner, { ...annotations, ...style }, link, options));
+                index = end + delimiter.length;
+                continue;
+            }
+        }
+
+        // 链接
+        if (char === "[" && !link) {
+            const match = rest.match(/^\[((?:\\.|[^\]\\])*)\]\(\s*<?([^()\s<>]*(?:\([^()\s]*\)[^()\s<>]*)*)>?(?:\s+"[^"]*")?\s*\)/);
+            if (match) {
+                flush();
+                const [whole, label, href] = match;
+                const target = /^(?:https?|mailto):/i.test(href) ? href : options.resolveLink?.(href);
+                items.push(...parseInline(label, annotations, target, options));
+                index += whole.length;
+                continue;
+            }
+        }
+
+        buffer += char;
+        index++;
+    }
+
+    flush();
+    return items;
+}
+
+/**
+ * 查找强调标记的结束位置:内容不能为空,结束标记前不能是空白,_ 不能位于单词中间
+ */
+function findClosing(text: string, start: number, delimiter: string): number {
+    const open = start + delimiter.length;
+    if (open >= text.length || /\s/.test(text[open])) {
+        return -1;
+    }
+    if (delimiter.startsWith("_") && start > 0 && /[\p{L}\p{N}]/u.test(text[start - 1])) {
+        return -1;
+    }
+
+    let index = text.indexOf(delimiter, open + 1);
+    while (index !== -1) {
+        const before = text[index - 1];
+        const after = text[index + delimiter.length] ?? "";
+        const isSingle = delimiter.length === 1 && (after === delimiter || before === delimiter);
+        const intraword = delimiter.startsWith("_") && /[\p{L}\p{N}]/u.test(after);
+        if (!/\s/.test(before) && before !== "\\" && !isSingle && !intraword) {
+            return index;
+        }
+        index = text.indexOf(delimiter, index + 1);
+    }
+    return -1;
+}
+
+/**
+ * 生成文本片段,超过长度限制时拆分为多个片段
+ */
+function textItems(content: string, annotations: Annotations, link: string | undefined): RichTextItemRequest[] {
+    const items: RichTextItemRequest[] = [];
+    for (let start = 0; start < content.length; start += MAX_TEXT_LENGTH) {
+        items.push({
+            type: "text",
+            text: { content: content.substring(start, start + MAX_TEXT_LENGTH), link: link ? { url: link } : null },
+            annotations: { ...annotations },
+        });
+    }
+    return items;
+}
+
+/**
+ * 生成不带格式的富文本(代码块内容)
+ */
+function plainText(content: string): RichTextItemRequest[] {
+    return textItems(content, PLAIN, undefined);
+}
+
+/**
+ * 转换代码块语言,无法识别时使用 plain text
+ */
+function toLanguage(language: string): LanguageRequest {
+    const name = language.toLowerCase();
+    if (CODE_LANGUAGES.includes(name as LanguageRequest)) {
+        return name as LanguageRequest;
+    }
+    return LANGUAGE_ALIASES[name] ?? "plain text";
+}
+
+/**
+ * 是否为本地路径(不是 URL)
+ */
+function isLocalPath(href: string): boolean {
+    return !/^[a-z][a-z0-9+.-]*:/i.test(href) && !href.startsWith("//") && !href.startsWith("#");
+}
+
+/**
+ * 解码链接中的路径
+ */
+function decodePath(href: string): string {
+    try {
+        return decodeURIComponent(href);
+    } catch {
+        return href;
+    }
+}
+
+/**
+ * 统计行首空格数
+ */
+function leadingSpaces(line: string): number {
+    return line.length - line.trimStart().length;
+}
+
+/**
+ * 创建没有子块的块
+ */
+function block(type: string, content: Record<string, unknown>): MarkdownBlock {
+    return { type, content, children: [] };
+}
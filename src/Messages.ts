@@ -0,0 +1,412 @@
+/**
+ * 生成的 Markdown 内容和日志输出使用的语言
+ */
+export type Locale = "zh-CN" | "en";
+
+export const LOCALES: Locale[] = ["zh-CN", "en"];
+
+// 默认语言的消息目录,{name} 为占位符
+const ZH_CN = {
+    // 生成的 Markdown 内容
+    "content.relatedDatabases": "📊 关联数据库",
+    "content.parentPage": "📂 所属页面",
+    "content.details": "详情",
+    "content.detailsDirSuffix": "_详情",
+    "content.emptyDatabase": "_数据库为空_",
+    "content.unreadableDatabase": "_无法读取数据库结构_",
+    "content.titleOnly": "_此页面仅包含标题,无其他内容_",
+    "content.link": "链接",
+    "content.notExported": "未导出",
+
+    // 导出日志
+    "export.startWorkspace": "开始导出工作区中集成可以访问的所有页面",
+    "export.start": "开始导出页面: {id}",
+    "export.outputDir": "输出目录: {dir}",
+    "export.downloadTo": "将下载图片和文件到: {dir}/",
+    "export.incremental": "增量模式: 跳过自上次导出后未修改的页面",
+    "export.resumed": "断点续传: 已完成 {count} 个页面和数据库",
+    "export.aborted": "⏸️  导出已中断,使用 --resume 从中断处继续",
+    "export.interrupting": "⏸️  正在中断导出,等待进行中的页面完成... (再次中断立即退出)",
+    "export.linksRewritten": "🔗 已重写 {count} 个文件中的内部链接",
+    "export.pruned": "🧹 已清理 {count} 个过期的文件和目录",
+    "export.finished": "✅ 导出完成!",
+    "export.finishedWithFailures": "⚠️  导出完成,但有 {failed} 个页面或数据库导出失败, {failedDownloads} 个文件下载失败",
+    "export.downloads": "📦 共下载 {count} 个文件",
+    "export.workspaceRoots": "🌐 发现 {count} 个顶层页面和数据库",
+    "export.page": "📄 导出: {name}",
+    "export.pageResumed": "⏭️  已完成,跳过: {name}",
+    "export.pageUnchanged": "⏭️  未修改,跳过: {name}",
+    "export.pageProperties": "ℹ️  页面内容块为空,导出页面属性",
+    "export.pageEmptyWithChildren": "⚠️  页面内容为空,跳过创建与目录同名的空文件",
+    "export.pageEmpty": "⚠️  页面内容为空,跳过写入文件",
+    "export.pageFailed": "❌ 导出失败 ({id}): {error}",
+    "export.rowCheckFailed": "⚠️  无法检查条目是否有详情,按有详情导出 ({id}): {error}",
+    "export.mediaFound": "📥 发现 {count} 个媒体文件",
+    "export.imageDownloaded": "✓ 图片: {name}",
+    "export.fileDownloaded": "✓ 文件: {name}",
+    "export.downloadFailed": "✗ 下载失败: {url}",
+    "export.childPagesFound": "└─ 发现 {count} 个子页面",
+    "export.childPagesFiltered": "⏭️  已按规则跳过所有子页面",
+    "export.filtered": "⏭️  已按规则跳过: {name}",
+    "export.traverse": "🔍 查找匹配的子页面: {name}",
+    "export.database": "🗄️  导出数据库: {name}",
+    "export.databaseResumed": "⏭️  已完成,跳过数据库: {name}",
+    "export.databaseFailed": "❌ 导出数据库失败 ({id}): {error}",
+    "export.rowsFiltered": "🔎 按规则筛选条目",
+    "export.rowsSorted": "🔎 按规则排序条目",
+    "export.rowsFilteredSorted": "🔎 按规则筛选排序条目",
+    "export.rowsFound": "└─ 发现 {count} 个数据库条目,导出为表格",
+    "export.rowDetails": "└─ 详细内容已导出到: {dir}/",
+    "export.databaseEmpty": "└─ 数据库为空",
+    "export.moved": "🚚 已移动: {from} → {to}",
+    "export.committed": "📝 已提交到 git: {count} 个提交 ({hash})",
+    "export.nothingToCommit": "📝 没有需要提交到 git 的改动",
+    "export.fileDownloadFailed": "⚠️  文件下载失败 ({url}): {error}",
+    "export.propertyFailed": "格式化属性失败 ({type}): {error}",
+    "export.checkpointFailed": "写入断点日志失败: {error}",
+    "export.pageWritten": "💾 已写入: {path} ({duration} ms)",
+    "export.fileFetched": "⬇️  已下载: {url} ({size}, {duration} ms)",
+    "export.request": "🌐 {method} {path} → {status} ({duration} ms)",
+    "export.requestFailed": "🌐 {method} {path} → 网络错误: {error} ({duration} ms)",
+
+    // 进度显示
+    "progress.status": "⏳ {done}/{total} 个页面 · {rate} 次请求/秒 · 已下载 {bytes} · {title}",
+
+    // 导出计划
+    "plan.rows": "{count} 个条目",
+    "plan.media": "{count} 个媒体文件",
+    "plan.noContent": "(无内容,不写入文件)",
+    "plan.summary": "共 {pages} 个页面, {databases} 个数据库 ({rows} 个条目), 约 {media} 个媒体文件",
+
+    // 页面变化(监视的变更日志和 git 提交信息)
+    "change.added": "新增",
+    "change.updated": "修改",
+    "change.removed": "删除",
+    "change.moved": "移动",
+
+    // 监视
+    "watch.startWorkspace": "👀 监视工作区,每 {interval} 秒检查一次",
+    "watch.start": "👀 监视页面: {id},每 {interval} 秒检查一次",
+    "watch.edits": "✏️  发现 {count} 处修改,等待编辑停止...",
+    "watch.checkFailed": "❌ 检查修改失败: {error}",
+    "watch.stopping": "⏹️  正在停止监视... (再次中断立即退出)",
+    "watch.stopped": "⏹️  已停止监视",
+    "watch.initialSync": "📥 首次同步 ({time})",
+    "watch.sync": "🔄 第 {cycle} 次同步 ({time})",
+    "watch.noChanges": "{title}: 没有变化",
+    "watch.changes": "{title}: 新增 {added} 个, 修改 {updated} 个, 移动 {moved} 个, 删除 {removed} 个",
+    "watch.moreChanges": "… 还有 {count} 处变化",
+    "watch.failures": "⚠️  {failed} 个页面或数据库导出失败, {failedDownloads} 个文件下载失败",
+
+    // git 提交信息
+    "git.summary": "notion-pull: 新增 {added} 个, 修改 {updated} 个, 删除 {removed} 个, 移动 {moved} 个页面",
+    "git.noChanges": "notion-pull: 更新导出文件",
+
+    // 推送
+    "push.start": "开始推送目录: {dir}",
+    "push.dryRun": "预览模式: 只比较内容,不写入 Notion",
+    "push.previewFinished": "预览完成: 新建 {created} 个, 更新 {updated} 个, 未修改 {unchanged} 个, 跳过 {skipped} 个, 失败 {failed} 个",
+    "push.finished": "推送完成: 新建 {created} 个, 更新 {updated} 个, 未修改 {unchanged} 个, 跳过 {skipped} 个, 失败 {failed} 个",
+    "push.databaseTable": "数据库表格不会推送",
+    "push.databaseTableSkipped": "⏭️  跳过数据库表格: {file}",
+    "push.unsupported": "要替换的内容包含推送无法还原的块 ({types}),请在 Notion 中修改",
+    "push.unsupportedSkipped": "⚠️  跳过 {title}: 要替换的内容包含推送无法还原的块 ({types})",
+    "push.newRow": "数据库条目只能更新已有页面",
+    "push.newRowSkipped": "⏭️  跳过新的数据库条目: {file}",
+    "push.pageMissing": "页面 {id} 不存在或已删除",
+    "push.parentMissing": "找不到父页面,请指定 parentPageId",
+    "push.unchanged": "⏭️  未修改,跳过: {title}",
+    "push.updating": "📝 更新: {title}",
+    "push.creating": "🆕 新建: {title}",
+    "push.uploading": "📤 上传: {file}",
+    "push.localFileMissing": "⚠️  本地文件不存在,已忽略: {file}",
+    "push.failed": "❌ 推送失败: {file} - {error}",
+    "push.willCreate": "🆕 将新建",
+    "push.created": "🆕 已新建",
+    "push.willUpdate": "📝 将更新",
+    "push.updated": "📝 已更新",
+    "push.unchangedLabel": "✓ 未修改",
+    "push.skippedLabel": "⏭️  跳过",
+    "push.failedLabel": "❌ 失败",
+    "push.summary": "共新建 {created} 个, 更新 {updated} 个, 未修改 {unchanged} 个, 跳过 {skipped} 个, 失败 {failed} 个页面",
+
+    // 命令行
+    "cli.missingApiKey": "❌ 错误: 缺少 API 密钥,请在 .env 文件中设置 NOTION_API_KEY",
+    "cli.missingPageId": "❌ 错误: 缺少页面 ID,请通过参数提供或在 .env 文件中设置 NOTION_PAGE_ID",
+    "cli.pageIdWithWorkspace": "❌ 错误: 页面 ID 不能与 --workspace 同时使用",
+    "cli.pageIdWithProfile": "❌ 错误: 页面 ID 或 --workspace 不能与 --profile 或 --all 同时使用",
+    "cli.recordWithReplay": "❌ 错误: --record 不能与 --replay 同时使用",
+    "cli.quietWithVerbose": "❌ 错误: --quiet 不能与 --verbose 或 --debug 同时使用",
+    "cli.missingConfig": "当前目录中没有 notion-pull.config.json 或 notion-pull.config.yaml",
+    "cli.exportFailures": "❌ {pages} 个页面和 {downloads} 个文件下载失败",
+    "cli.pushFailures": "❌ {count} 个文件推送失败",
+    "cli.exportFailed": "❌ 导出失败: {error}",
+    "cli.planFailed": "❌ 生成导出计划失败: {error}",
+    "cli.watchFailed": "❌ 监视失败: {error}",
+    "cli.pushFailed": "❌ 推送失败: {error}",
+
+    // 错误信息
+    "query.invalidRule": "\"{value}\" 应为 <数据库 ID 或标题>:<表达式>",
+    "query.invalidCondition": "无法解析筛选条件 \"{condition}\"",
+    "query.unknownProperty": "筛选条件中的属性 \"{name}\" 不存在",
+    "query.notNumber": "属性 \"{name}\" 的值 \"{value}\" 不是数字",
+    "query.notBoolean": "属性 \"{name}\" 的值应为 true 或 false",
+    "query.notId": "{type} 类型的属性 \"{name}\" 只能按用户或页面 ID 筛选,\"{value}\" 不是 ID",
+    "query.unsupportedType": "不支持按 {type} 类型的属性 \"{name}\" 筛选,请在配置文件中使用 Notion API 的 filter 对象",
+    "query.unsupportedOperator": "{type} 类型的属性 \"{name}\" 不支持运算符 {operator}",
+    "query.unknownSortProperty": "排序中的属性 \"{name}\" 不存在",
+    "config.missingProfiles": "配置文件 {path} 中缺少 profiles",
+    "config.notObject": "{context} 必须是对象",
+    "config.unknownProfile": "配置集 \"{name}\" 不存在,可用的配置集: {profiles}",
+    "config.overlappingOutput": "配置集 \"{profile}\" 的根页面 {id} 与配置集 \"{otherProfile}\" 的根页面 {otherId} 的输出目录重叠: {output}, {otherOutput}",
+    "config.unknownSetting": "{context}.{key} 不是有效的设置,可用的设置: {settings}",
+    "config.invalidSetting": "{context}.{key} 必须是 {expected}",
+    "config.invalidRoots": "{context}.roots 必须是非空数组",
+    "config.invalidRoot": "{context}.roots[{index}] 必须是页面 ID 或 { id, output } 对象",
+    "config.expectString": "非空字符串",
+    "config.expectBoolean": "true 或 false",
+    "config.expectPositiveNumber": "正数",
+    "config.expectNonNegativeInteger": "非负整数",
+    "config.expectOneOf": "{choices} 之一",
+    "config.expectFormats": "由 {choices} 组成的数组或逗号分隔的字符串",
+    "config.expectChoices": "由 {choices} 组成的数组",
+    "config.expectDatabaseRules": "由 { database, filter, sort } 对象组成的数组",
+    "config.expectStringArray": "字符串数组",
+    "config.expectMessages": "以消息键为键、字符串为值的对象",
+    "git.notRepository": "输出目录不在 git 仓库中: {dir}",
+    "git.failed": "git {command} 失败: {error}",
+    "cassette.miss": "回放记录中没有该请求: {method} {url}",
+    "transformer.unknown": "块转换器 \"{name}\" 不存在,可用的转换器: {transformers}",
+    "download.failed": "下载失败: {status} {statusText}",
+};
+
+export type MessageKey = keyof typeof ZH_CN;
+
+export type MessageCatalog = Record<MessageKey, string>;
+
+export type MessageOverrides = Partial<MessageCatalog>;
+
+const EN: MessageCatalog = {
+    "content.relatedDatabases": "📊 Related Databases",
+    "content.parentPage": "📂 Parent page",
+    "content.details": "Details",
+    "content.detailsDirSuffix": "_details",
+    "content.emptyDatabase": "_This database is empty_",
+    "content.unreadableDatabase": "_Could not read the database structure_",
+    "content.titleOnly": "_This page only has a title_",
+    "content.link": "Link",
+    "content.notExported": "not exported",
+
+    "export.startWorkspace": "Exporting every page the integration can access in the workspace",
+    "export.start": "Exporting page: {id}",
+    "export.outputDir": "Output directory: {dir}",
+    "export.downloadTo": "Downloading images and files to: {dir}/",
+    "export.incremental": "Incremental mode: skipping pages not edited since the last export",
+    "export.resumed": "Resuming: {count} pages and databases already done",
+    "export.aborted": "⏸️  Export interrupted, use --resume to continue where it stopped",
+    "export.interrupting": "⏸️  Interrupting export, waiting for in-progress pages... (interrupt again to exit immediately)",
+    "export.linksRewritten": "🔗 Rewrote internal links in {count} files",
+    "export.pruned": "🧹 Removed {count} stale files and directories",
+    "export.finished": "✅ Export finished!",
+    "export.finishedWithFailures": "⚠️  Export finished, but {failed} pages or databases and {failedDownloads} downloads failed",
+    "export.downloads": "📦 Downloaded {count} files",
+    "export.workspaceRoots": "🌐 Found {count} top-level pages and databases",
+    "export.page": "📄 Exporting: {name}",
+    "export.pageResumed": "⏭️  Already done, skipping: {name}",
+    "export.pageUnchanged": "⏭️  Unchanged, skipping: {name}",
+    "export.pageProperties": "ℹ️  Page has no content blocks, exporting its properties",
+    "export.pageEmptyWithChildren": "⚠️  Page is empty, not creating a file next to its subpage directory",
+    "export.pageEmpty": "⚠️  Page is empty, no file written",
+    "export.pageFailed": "❌ Export failed ({id}): {error}",
+    "export.rowCheckFailed": "⚠️  Could not check row for details, exporting it anyway ({id}): {error}",
+    "export.mediaFound": "📥 Media files found: {count}",
+    "export.imageDownloaded": "✓ Image: {name}",
+    "export.fileDownloaded": "✓ File: {name}",
+    "export.downloadFailed": "✗ Download failed: {url}",
+    "export.childPagesFound": "└─ Subpages found: {count}",
+    "export.childPagesFiltered": "⏭️  All subpages skipped by the rules",
+    "export.filtered": "⏭️  Skipped by the rules: {name}",
+    "export.traverse": "🔍 Looking for matching subpages: {name}",
+    "export.database": "🗄️  Exporting database: {name}",
+    "export.databaseResumed": "⏭️  Already done, skipping database: {name}",
+    "export.databaseFailed": "❌ Database export failed ({id}): {error}",
+    "export.rowsFiltered": "🔎 Filtering rows by the rules",
+    "export.rowsSorted": "🔎 Sorting rows by the rules",
+    "export.rowsFilteredSorted": "🔎 Filtering and sorting rows by the rules",
+    "export.rowsFound": "└─ Database rows found: {count}, exporting as a table",
+    "export.rowDetails": "└─ Row details exported to: {dir}/",
+    "export.databaseEmpty": "└─ The database is empty",
+    "export.moved": "🚚 Moved: {from} → {to}",
+    "export.committed": "📝 Committed to git: {count} commits ({hash})",
+    "export.nothingToCommit": "📝 No changes to commit to git",
+    "export.fileDownloadFailed": "⚠️  File download failed ({url}): {error}",
+    "export.propertyFailed": "Failed to format a property ({type}): {error}",
+    "export.checkpointFailed": "Failed to write the checkpoint journal: {error}",
+    "export.pageWritten": "💾 Wrote: {path} ({duration} ms)",
+    "export.fileFetched": "⬇️  Downloaded: {url} ({size}, {duration} ms)",
+    "export.request": "🌐 {method} {path} → {status} ({duration} ms)",
+    "export.requestFailed": "🌐 {method} {path} → network error: {error} ({duration} ms)",
+
+    "progress.status": "⏳ {done}/{total} pages · {rate} req/s · {bytes} downloaded · {title}",
+
+    "plan.rows": "rows: {count}",
+    "plan.media": "media files: {count}",
+    "plan.noContent": "(no content, no file written)",
+    "plan.summary": "Pages: {pages}, databases: {databases} (rows: {rows}), media files: about {media}",
+
+    "change.added": "Added",
+    "change.updated": "Changed",
+    "change.removed": "Removed",
+    "change.moved": "Moved",
+
+    "watch.startWorkspace": "👀 Watching the workspace, checking every {interval} seconds",
+    "watch.start": "👀 Watching page {id}, checking every {interval} seconds",
+    "watch.edits": "✏️  Found {count} edits, waiting for editing to stop...",
+    "watch.checkFailed": "❌ Checking for edits failed: {error}",
+    "watch.stopping": "⏹️  Stopping watch... (interrupt again to exit immediately)",
+    "watch.stopped": "⏹️  Stopped watching",
+    "watch.initialSync": "📥 Initial sync ({time})",
+    "watch.sync": "🔄 Sync {cycle} ({time})",
+    "watch.noChanges": "{title}: no changes",
+    "watch.changes": "{title}: {added} added, {updated} changed, {moved} moved, {removed} removed",
+    "watch.moreChanges": "… {count} more changes",
+    "watch.failures": "⚠️  {failed} pages or databases and {failedDownloads} downloads failed",
+
+    "git.summary": "notion-pull: {added} added, {updated} changed, {removed} removed, {moved} moved pages",
+    "git.noChanges": "notion-pull: update exported files",
+
+    "push.start": "Pushing directory: {dir}",
+    "push.dryRun": "Dry run: comparing content without writing to Notion",
+    "push.previewFinished": "Dry run finished: {created} to create, {updated} to update, {unchanged} unchanged, {skipped} skipped, {failed} failed",
+    "push.finished": "Push finished: {created} created, {updated} updated, {unchanged} unchanged, {skipped} skipped, {failed} failed",
+    "push.databaseTable": "Database tables are not pushed",
+    "push.databaseTableSkipped": "⏭️  Skipping database table: {file}",
+    "push.unsupported": "Content to replace has blocks push cannot recreate ({types}); edit it in Notion",
+    "push.unsupportedSkipped": "⚠️  Skipping {title}: content to replace has blocks push cannot recreate ({types})",
+    "push.newRow": "Database rows can only update existing pages",
+    "push.newRowSkipped": "⏭️  Skipping new database row: {file}",
+    "push.pageMissing": "Page {id} does not exist or was deleted",
+    "push.parentMissing": "No parent page found, specify parentPageId",
+    "push.unchanged": "⏭️  Unchanged, skipping: {title}",
+    "push.updating": "📝 Updating: {title}",
+    "push.creating": "🆕 Creating: {title}",
+    "push.uploading": "📤 Uploading: {file}",
+    "push.localFileMissing": "⚠️  Local file not found, left out: {file}",
+    "push.failed": "❌ Push failed: {file} - {error}",
+    "push.willCreate": "🆕 Will create",
+    "push.created": "🆕 Created",
+    "push.willUpdate": "📝 Will update",
+    "push.updated": "📝 Updated",
+    "push.unchangedLabel": "✓ Unchanged",
+    "push.skippedLabel": "⏭️  Skipped",
+    "push.failedLabel": "❌ Failed",
+    "push.summary": "{created} created, {updated} updated, {unchanged} unchanged, {skipped} skipped, {failed} failed pages",
+
+    "cli.missingApiKey": "❌ Error: Missing API key. Set NOTION_API_KEY in .env file",
+    "cli.missingPageId": "❌ Error: Missing page ID. Provide it as an argument or set NOTION_PAGE_ID in .env file",
+    "cli.pageIdWithWorkspace": "❌ Error: A page ID cannot be combined with --workspace",
+    "cli.pageIdWithProfile": "❌ Error: A page ID or --workspace cannot be combined with --profile or --all",
+    "cli.recordWithReplay": "❌ Error: --record cannot be combined with --replay",
+    "cli.quietWithVerbose": "❌ Error: --quiet cannot be combined with --verbose or --debug",
+    "cli.missingConfig": "No notion-pull.config.json or notion-pull.config.yaml found in the current directory",
+    "cli.exportFailures": "❌ {pages} page(s) and {downloads} download(s) failed",
+    "cli.pushFailures": "❌ {count} file(s) failed to push",
+    "cli.exportFailed": "❌ Export failed: {error}",
+    "cli.planFailed": "❌ Plan failed: {error}",
+    "cli.watchFailed": "❌ Watch failed: {error}",
+    "cli.pushFailed": "❌ Push failed: {error}",
+
+    "query.invalidRule": "\"{value}\" should be <database id or title>:<expression>",
+    "query.invalidCondition": "Cannot parse filter condition \"{condition}\"",
+    "query.unknownProperty": "Property \"{name}\" in the filter does not exist",
+    "query.notNumber": "Value \"{value}\" of property \"{name}\" is not a number",
+    "query.notBoolean": "Value of property \"{name}\" should be true or false",
+    "query.notId": "{type} property \"{name}\" can only be filtered by user or page ID, \"{value}\" is not an ID",
+    "query.unsupportedType": "Filtering by {type} property \"{name}\" is not supported, use a Notion API filter object in the configuration file",
+    "query.unsupportedOperator": "{type} property \"{name}\" does not support operator {operator}",
+    "query.unknownSortProperty": "Property \"{name}\" in the sort does not exist",
+    "config.missingProfiles": "Configuration file {path} has no profiles",
+    "config.notObject": "{context} must be an object",
+    "config.unknownProfile": "Profile \"{name}\" does not exist, available profiles: {profiles}",
+    "config.overlappingOutput": "Root {id} of profile \"{profile}\" and root {otherId} of profile \"{otherProfile}\" have overlapping output directories: {output}, {otherOutput}",
+    "config.unknownSetting": "{context}.{key} is not a valid setting, available settings: {settings}",
+    "config.invalidSetting": "{context}.{key} must be {expected}",
+    "config.invalidRoots": "{context}.roots must be a non-empty array",
+    "config.invalidRoot": "{context}.roots[{index}] must be a page ID or an { id, output } object",
+    "config.expectString": "a non-empty string",
+    "config.expectBoolean": "true or false",
+    "config.expectPositiveNumber": "a positive number",
+    "config.expectNonNegativeInteger": "a non-negative integer",
+    "config.expectOneOf": "one of {choices}",
+    "config.expectFormats": "an array of {choices} or a comma-separated string",
+    "config.expectChoices": "an array of {choices}",
+    "config.expectDatabaseRules": "an array of { database, filter, sort } objects",
+    "config.expectStringArray": "an array of strings",
+    "config.expectMessages": "an object mapping message keys to strings",
+    "git.notRepository": "Output directory is not in a git repository: {dir}",
+    "git.failed": "git {command} failed: {error}",
+    "cassette.miss": "Request not found in the recording: {method} {url}",
+    "transformer.unknown": "Block transformer \"{name}\" does not exist, available transformers: {transformers}",
+    "download.failed": "Download failed: {status} {statusText}",
+};
+
+const CATALOGS: Record<Locale, MessageCatalog> = {
+    "zh-CN": ZH_CN,
+    en: EN,
+};
+
+/**
+ * 判断字符串是否为消息键
+ * @param key - 字符串
+ */
+export function isMessageKey(key: string): key is MessageKey {
+    return Object.prototype.hasOwnProperty.call(ZH_CN, key);
+}
+
+/**
+ * 消息目录 - 按语言提供生成内容和日志中的文字,可以覆盖单条消息
+ */
+export default class Messages {
+    private locale: Locale;
+    private catalog: MessageCatalog;
+
+    /**
+     * @param locale - 语言,默认为中文
+     * @param overrides - 覆盖的消息
+     */
+    constructor(locale: Locale = "zh-CN", overrides: MessageOverrides = {}) {
+        this.locale = locale;
+        this.catalog = { ...CATALOGS[locale], ...overrides };
+    }
+
+    /**
+     * 获取语言
+     */
+    public getLocale(): Locale {
+        return this.locale;
+    }
+
+    /**
+     * 获取消息并替换占位符
+     * @param key - 消息键
+     * @param params - 占位符的值
+     * @returns 消息文字
+     */
+    public t(key: MessageKey, params: Record<string, string | number> = {}): string {
+        return this.catalog[key].replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+    }
+
+    /**
+     * 获取消息在当前目录和所有内置语言中的文字(用于识别以其他语言导出的内容)
+     * @param key - 消息键
+     * @returns 去重后的文字,当前目录的在前
+     */
+    public variants(key: MessageKey): string[] {
+        return Array.from(new Set([this.catalog[key], ...LOCALES.map(locale => CATALOGS[locale][key])]));
+    }
+}
+
+/**
+ * 默认的中文消息目录
+ */
+export const defaultMessages = new Messages();
@@ -1,16 +1,24 @@
 import {
     Client,
+    isFullBlock,
     isFullPage,
     iteratePaginatedAPI,
+    LogLevel,
 } from "@notionhq/client";
 import type {
+    BlockObjectResponse,
     PageObjectResponse,
     PartialPageObjectResponse,
     DatabaseObjectResponse,
     PartialDatabaseObjectResponse,
 } from "@notionhq/client/build/src/api-endpoints";
+import RequestScheduler, { isIdempotentRequest, RequestSchedulerOptions } from "./RequestScheduler.js";
+import type RequestCassette from "./RequestCassette.js";
+import type { DatabaseQuery } from "./DatabaseQuery.js";
+import { consoleLogger, Logger, RequestFinishedEvent } from "./ExportEvents.js";
+import Messages, { defaultMessages } from "./Messages.js";
 
-type PageOrDatabase =
+export type PageOrDatabase =
     | PageObjectResponse
     | PartialPageObjectResponse
     | DatabaseObjectResponse
@@ -22,225 +30,43 @@ export interface ChildPageInfo {
     type: "page" | "database"; // 区分页面和数据库
 }
 
-/**
- * 将页面属性转换为 Markdown 格式
- */
-export function propertiesToMarkdown(page: PageOrDatabase): string {
-    if (!isFullPage(page) || !("properties" in page)) {
-        return "";
-    }
-
-    const lines: string[] = [];
-    let hasNonTitleProperties = false;
-
-    for (const [propertyName, property] of Object.entries(page.properties)) {
-        // 跳过标题属性(已经作为文件名)
-        if (property.type === "title") {
-            continue;
-        }
-
-        hasNonTitleProperties = true;
-        let value = "";
-
-        switch (property.type) {
-            case "rich_text":
-                value = property.rich_text.map(t => ("plain_text" in t ? t.plain_text : "")).join("");
-                break;
-            case "number":
-                value = property.number !== null ? String(property.number) : "";
-                break;
-            case "select":
-                value = property.select?.name || "";
-                break;
-            case "multi_select":
-                value = property.multi_select.map(s => s.name).join(", ");
-                break;
-            case "date":
-                if (property.date) {
-                    value = property.date.end
-                        ? `${property.date.start} → ${property.date.end}`
-                        : property.date.start;
-                }
-                break;
-            case "checkbox":
-                value = property.checkbox ? "✓" : "☐";
-                break;
-            case "url":
-                value = property.url || "";
-                break;
-            case "email":
-                value = property.email || "";
-                break;
-            case "phone_number":
-                value = property.phone_number || "";
-                break;
-            case "status":
-                value = property.status?.name || "";
-                break;
-            // 可以继续添加其他属性类型
-            default:
-                value = `[${property.type}]`;
-        }
-
-        if (value) {
-            lines.push(`**${propertyName}**: ${value}`);
-        }
-    }
-
-    // 如果只有标题属性没有其他属性,返回一个占位符
-    if (!hasNonTitleProperties) {
-        return "_此页面仅包含标题,无其他内容_\n\n";
-    }
-
-    return lines.length > 0 ? lines.join("\n") + "\n\n" : "";
+export interface PageChildren {
+    childPages: ChildPageInfo[];
+    blockCount: number;  // 直接子块数量(包括子页面和子数据库)
+    mediaCount: number;  // 直接子块中的图片、视频、音频、PDF 和文件数量
 }
 
-/**
- * 从页面属性中提取单元格值(用于表格)
- */
-export function extractPropertyValue(property: any): string {
-    if (!property) return "";
-
-    switch (property.type) {
-        case "title":
-            return property.title?.map((t: any) => t.plain_text || "").join("") || "";
-        case "rich_text":
-            return property.rich_text?.map((t: any) => t.plain_text || "").join("") || "";
-        case "number":
-            return property.number !== null ? String(property.number) : "";
-        case "select":
-            return property.select?.name || "";
-        case "multi_select":
-            return property.multi_select?.map((s: any) => s.name).join(", ") || "";
-        case "date":
-            if (property.date) {
-                return property.date.end
-                    ? `${property.date.start} → ${property.date.end}`
-                    : property.date.start;
-            }
-            return "";
-        case "checkbox":
-            return property.checkbox ? "✓" : "☐";
-        case "url":
-            return property.url || "";
-        case "email":
-            return property.email || "";
-        case "phone_number":
-            return property.phone_number || "";
-        case "status":
-            return property.status?.name || "";
-        case "people":
-            return property.people?.map((p: any) => p.name || "").join(", ") || "";
-        case "files":
-            return property.files?.map((f: any) => f.name || "").join(", ") || "";
-        case "created_time":
-            return property.created_time || "";
-        case "last_edited_time":
-            return property.last_edited_time || "";
-        default:
-            return `[${property.type}]`;
-    }
+export interface NotionUser {
+    name: string;       // 显示名称,无权限读取用户信息时为用户 ID
+    email?: string;     // 邮箱,仅在集成有读取用户邮箱的权限时提供
 }
 
-export interface DatabaseToMarkdownOptions {
-    databaseName?: string;
-    parentPageTitle?: string;           // 父页面标题(用于生成返回链接)
-    detailsDir?: string;                // 详情目录名称
-    pagesWithDetails?: Set<string>;     // 有详情内容的页面ID集合
+export interface NotionClientOptions extends RequestSchedulerOptions {
+    logger?: Logger;    // 日志,默认输出到控制台
+    cassette?: RequestCassette; // 录制或回放 API 响应
+    messages?: Messages;        // 生成内容和日志使用的文字,默认为中文
+    notionVersion?: string;     // Notion API 版本,默认为兼容 databases.query 的 2022-06-28
+    onRequest?: (event: RequestFinishedEvent) => void;  // 每个 API 请求(包括重试)结束时调用
 }
 
 /**
- * 将数据库页面数组转换为 Markdown 表格
+ * 导出整个工作区时代替根页面 ID 使用的标识(用于清单、断点日志和报告)
  */
-export function databaseToMarkdownTable(pages: PageOrDatabase[], options: DatabaseToMarkdownOptions | string = "Database"): string {
-    // 兼容旧版调用方式
-    const opts: DatabaseToMarkdownOptions = typeof options === "string"
-        ? { databaseName: options }
-        : options;
-
-    const databaseName = opts.databaseName || "Database";
-    const parentPageTitle = opts.parentPageTitle;
-    const detailsDir = opts.detailsDir;
-    const pagesWithDetails = opts.pagesWithDetails;
-
-    // 构建头部
-    let header = `# ${databaseName}\n\n`;
-
-    // 添加返回父页面的链接
-    if (parentPageTitle) {
-        header += `> 📂 所属页面: [${parentPageTitle}](../${encodeURIComponent(parentPageTitle)}.md)\n\n`;
-    }
-
-    if (pages.length === 0) {
-        return header + `_数据库为空_\n`;
-    }
-
-    // 获取第一个完整页面来确定列
-    const firstFullPage = pages.find(p => isFullPage(p) && "properties" in p);
-    if (!firstFullPage || !("properties" in firstFullPage)) {
-        return header + `_无法读取数据库结构_\n`;
-    }
+export const WORKSPACE_ROOT_ID = "workspace";
 
-    // 提取所有属性名称作为列标题，并按照合理的顺序排列
-    const properties = firstFullPage.properties;
-    const allColumnNames = Object.keys(properties);
-
-    // 将 title 类型的属性排在最前面，其他属性保持原有顺序
-    const titleColumns = allColumnNames.filter(name => {
-        const prop = properties[name];
-        return prop && "type" in prop && prop.type === "title";
-    });
-    const otherColumns = allColumnNames.filter(name => {
-        const prop = properties[name];
-        return !prop || !("type" in prop) || prop.type !== "title";
-    });
-
-    const columnNames = [...titleColumns, ...otherColumns];
-
-    // 判断是否需要添加详情链接列
-    const hasDetailsColumn = detailsDir && pagesWithDetails && pagesWithDetails.size > 0;
-
-    // 构建表格标题行
-    const allColumns = hasDetailsColumn ? [...columnNames, "详情"] : columnNames;
-    const headerRow = `| ${allColumns.join(" | ")} |`;
-    const separatorRow = `| ${allColumns.map(() => "---").join(" | ")} |`;
-
-    // 构建数据行
-    const dataRows: string[] = [];
-    for (const page of pages) {
-        if (!isFullPage(page) || !("properties" in page)) {
-            continue;
-        }
+const MEDIA_BLOCK_TYPES = new Set(["image", "video", "audio", "pdf", "file"]);
 
-        const cells = columnNames.map(colName => {
-            const property = page.properties[colName];
-            const value = extractPropertyValue(property);
-            // 转义表格中的管道符和换行符
-            return value.replace(/\|/g, "\\|").replace(/\n/g, " ");
-        });
+// 只读取数据的 POST 请求(数据库查询和搜索)
+const READ_ONLY_POST = /\/v1\/(databases\/[^/?]+\/query|search)(\?|$)/;
 
-        // 添加详情链接
-        if (hasDetailsColumn) {
-            if (pagesWithDetails.has(page.id)) {
-                // 获取页面标题用于链接
-                const titleProperty = Object.values(page.properties).find(p => p.type === "title");
-                let pageTitle = "Untitled";
-                if (titleProperty && titleProperty.type === "title" && Array.isArray(titleProperty.title)) {
-                    pageTitle = titleProperty.title.map(t => "plain_text" in t ? t.plain_text : "").join("") || "Untitled";
-                }
-                // 清理文件名
-                const safeTitle = pageTitle.replace(/[<>:"/\\|?*]/g, "_").replace(/\s+/g, " ").trim().substring(0, 200);
-                cells.push(`[📄 详情](${encodeURIComponent(detailsDir)}/${encodeURIComponent(safeTitle)}.md)`);
-            } else {
-                cells.push("-");
-            }
-        }
-
-        dataRows.push(`| ${cells.join(" | ")} |`);
-    }
-
-    // 组合成完整的 Markdown 表格
-    return `${header}${headerRow}\n${separatorRow}\n${dataRows.join("\n")}\n`;
+/**
+ * 判断 Notion 请求在 5xx 和网络错误后能否重试:幂等的请求方法和只读的 POST 请求可以重试,
+ * 创建页面、追加块等写入请求可能已经生效,重试会产生重复的页面或内容
+ * @param url - 请求地址
+ * @param method - 请求方法
+ */
+function isRetrySafe(url: string, method: string): boolean {
+    return isIdempotentRequest(url, method) || (method.toUpperCase() === "POST" && READ_ONLY_POST.test(url));
 }
 
 /**
@@ -248,17 +74,83 @@ export function databaseToMarkdownTable(pages: PageOrDatabase[], options: Databa
  */
 export default class NotionClient {
     private notion: Client;
+    private scheduler: RequestScheduler;
+    private users: Map<string, Promise<NotionUser>> = new Map();
+    private logger: Logger;
+    private messages: Messages;
+
+    constructor(authKey: string, options: NotionClientOptions = {}) {
+        this.logger = options.logger ?? consoleLogger;
+        this.messages = options.messages ?? defaultMessages;
+        this.scheduler = new RequestScheduler(options);
+
+        // 录制时保存经过调度器的每个响应;回放时不发出请求,也无需限速
+        // 计时位于调度器之内,每次重试分别记录,耗时不含限速等待
+        const cassette = options.cassette;
+        const onRequest = options.onRequest;
+        const requestFetch = cassette?.getMode() === "replay"
+            ? this.timeFetch(cassette.wrapFetch(fetch), onRequest)
+            : this.scheduler.wrapFetch(this.timeFetch(cassette ? cassette.wrapFetch(fetch) : fetch, onRequest), isRetrySafe);
 
-    constructor(authKey: string) {
         this.notion = new Client({
             auth: authKey,
-            // 使用旧版 API 以兼容 databases.query
-            notionVersion: "2022-06-28",
+            // 默认使用旧版 API 以兼容 databases.query
+            notionVersion: options.notionVersion ?? "2022-06-28",
+            // 所有请求(包括 notion-to-md 发出的)都经过上面的限速重试或录制回放
+            fetch: requestFetch,
+            retry: false,
+            // SDK 的警告和错误同样输出到日志
+            logger: (level, message, extraInfo) => {
+                const line = `@notionhq/client ${level}: ${message} ${JSON.stringify(extraInfo)}`;
+                if (level === LogLevel.ERROR) {
+                    this.logger.error(line);
+                } else if (level === LogLevel.WARN) {
+                    this.logger.warn(line);
+                } else {
+                    this.logger.info(line);
+                }
+            },
         });
     }
 
     /**
-     * 获取 Notion Client 实例
+     * 包装 fetch 函数,记录每个请求的状态和耗时(debug 级别日志)
+     * @param fetchFn - 原始 fetch 函数
+     * @param onRequest - 请求结束时的回调
+     * @returns 计时的 fetch 函数
+     */
+    private timeFetch<Init extends { method?: string }>(
+        fetchFn: (url: string, init?: Init) => Promise<Response>,
+        onRequest?: (event: RequestFinishedEvent) => void
+    ): (url: string, init?: Init) => Promise<Response> {
+        return async (url, init) => {
+            const method = (init?.method ?? "GET").toUpperCase();
+            const path = new URL(url).pathname;
+            const startTime = Date.now();
+            try {
+                const response = await fetchFn(url, init);
+                const durationMs = Date.now() - startTime;
+                this.logger.debug?.(
+                    this.messages.t("export.request", { method, path, status: response.status, duration: durationMs }),
+                    { method, path, status: response.status, durationMs }
+                );
+                onRequest?.({ method, url, status: response.status, durationMs });
+                return response;
+            } catch (error) {
+                const durationMs = Date.now() - startTime;
+                const message = error instanceof Error ? error.message : String(error);
+                this.logger.debug?.(
+                    this.messages.t("export.requestFailed", { method, path, error: message, duration: durationMs }),
+                    { method, path, error: message, durationMs }
+                );
+                onRequest?.({ method, url, durationMs });
+                throw error;
+            }
+        };
+    }
+
+    /**
+     * 获取 Notion Client 实例(请求已经过调度器)
      */
     public getClient(): Client {
         return this.notion;
@@ -324,56 +216,202 @@ export default class NotionClient {
         return "Untitled";
     }
 
+    /**
+     * 获取用户显示名称(带缓存),无权限读取用户信息时返回用户 ID
+     * @param userId - 用户 ID
+     * @returns 用户名称
+     */
+    public async getUserName(userId: string): Promise<string> {
+        return (await this.getUser(userId)).name;
+    }
+
+    /**
+     * 获取用户名称和邮箱(带缓存),无权限读取用户信息时名称为用户 ID
+     * @param userId - 用户 ID
+     * @returns 用户信息
+     */
+    public getUser(userId: string): Promise<NotionUser> {
+        let user = this.users.get(userId);
+        if (!user) {
+            user = this.notion.users
+                .retrieve({ user_id: userId })
+                .then(response => ({
+                    name: ("name" in response && response.name) || userId,
+                    email: response.type === "person" ? response.person.email : undefined,
+                }))
+                .catch(() => ({ name: userId }));
+            this.users.set(userId, user);
+        }
+        return user;
+    }
+
     /**
      * 获取页面的所有子页面
+     * 获取失败时抛出异常,不能返回空数组,否则子页面会被当作已删除
      * @param pageId - 父页面 ID
      * @returns 子页面信息数组
      */
     public async getChildPages(pageId: string): Promise<ChildPageInfo[]> {
+        const { childPages } = await this.listChildren(pageId);
+        return childPages;
+    }
+
+    /**
+     * 遍历页面的直接子块,统计内容块和媒体块数量并收集子页面
+     * @param pageId - 父页面 ID
+     * @returns 子页面信息及块统计
+     */
+    public async listChildren(pageId: string): Promise<PageChildren> {
         const childPages: ChildPageInfo[] = [];
+        let blockCount = 0;
+        let mediaCount = 0;
 
-        try {
-            // 获取所有块
-            for await (const block of iteratePaginatedAPI(
-                this.notion.blocks.children.list,
-                {
-                    block_id: pageId,
-                }
-            )) {
-                // 只处理子页面和子数据库
-                if (
-                    "type" in block &&
-                    (block.type === "child_page" || block.type === "child_database")
-                ) {
-                    const childId = block.id;
-                    let childTitle = "Untitled";
-
-                    if (block.type === "child_page" && "child_page" in block) {
-                        childTitle = block.child_page.title || "Untitled";
-                    } else if (block.type === "child_database" && "child_database" in block) {
-                        childTitle = block.child_database.title || "Untitled";
-                    }
-
-                    childPages.push({
-                        id: childId,
-                        title: childTitle,
-                        type: block.type === "child_page" ? "page" : "database", // 记录类型
-                    });
+        for await (const block of iteratePaginatedAPI(
+            this.notion.blocks.children.list,
+            {
+                block_id: pageId,
+            }
+        )) {
+            if (!("type" in block)) {
+                continue;
+            }
+            blockCount++;
+
+            if (MEDIA_BLOCK_TYPES.has(block.type)) {
+                mediaCount++;
+            }
+
+            // 只收集子页面和子数据库
+            if (block.type === "child_page" || block.type === "child_database") {
+                let childTitle = "Untitled";
+
+                if (block.type === "child_page" && "child_page" in block) {
+                    childTitle = block.child_page.title || "Untitled";
+                } else if (block.type === "child_database" && "child_database" in block) {
+                    childTitle = block.child_database.title || "Untitled";
                 }
+
+                childPages.push({
+                    id: block.id,
+                    title: childTitle,
+                    type: block.type === "child_page" ? "page" : "database", // 记录类型
+                });
             }
-        } catch (error) {
-            console.error(`获取子页面失败 (${pageId}):`, error instanceof Error ? error.message : String(error));
         }
 
-        return childPages;
+        return { childPages, blockCount, mediaCount };
+    }
+
+    /**
+     * 获取页面或块的所有直接子块
+     * @param blockId - 页面或块 ID
+     * @returns 子块
+     */
+    public async listBlocks(blockId: string): Promise<BlockObjectResponse[]> {
+        const blocks: BlockObjectResponse[] = [];
+        for await (const block of iteratePaginatedAPI(this.notion.blocks.children.list, { block_id: blockId })) {
+            if (isFullBlock(block)) {
+                blocks.push(block);
+            }
+        }
+        return blocks;
+    }
+
+    /**
+     * 分页搜索集成可以访问的所有页面和数据库
+     * @param sortByLastEdited - 是否按最后编辑时间从新到旧排序
+     * @yields 搜索到的每个页面或数据库对象
+     */
+    public async *searchPaginated(sortByLastEdited: boolean = false): AsyncGenerator<PageOrDatabase> {
+        interface SearchResponse {
+            results: PageOrDatabase[];
+            has_more: boolean;
+            next_cursor: string | null;
+        }
+
+        let hasMore = true;
+        let startCursor: string | undefined = undefined;
+
+        const sort = sortByLastEdited ? { sort: { direction: "descending", timestamp: "last_edited_time" } } : {};
+        while (hasMore) {
+            const response: SearchResponse = await this.notion.request<SearchResponse>({
+                path: "search",
+                method: "post",
+                body: startCursor ? { ...sort, start_cursor: startCursor, page_size: 100 } : { ...sort, page_size: 100 },
+            });
+
+            for (const item of response.results) {
+                yield item;
+            }
+
+            hasMore = response.has_more;
+            startCursor = response.next_cursor ?? undefined;
+        }
+    }
+
+    /**
+     * 获取指定时间之后编辑过的页面和数据库(包括已移到回收站的对象)
+     * @param since - 起始时间
+     * @returns 按最后编辑时间从新到旧排序的页面和数据库
+     */
+    public async getEditedSince(since: Date): Promise<PageOrDatabase[]> {
+        const items: PageOrDatabase[] = [];
+        for await (const item of this.searchPaginated(true)) {
+            if (!("last_edited_time" in item) || new Date(item.last_edited_time) < since) {
+                break;
+            }
+            items.push(item);
+        }
+        return items;
+    }
+
+    /**
+     * 获取工作区中集成可以访问的顶层页面和数据库
+     * 父页面或父数据库同样可以访问的对象会在遍历其父级时导出,不作为顶层;
+     * 嵌套在其他块(如分栏、折叠块)中的页面不会被遍历到,因此也作为顶层
+     * @returns 按创建时间排序的顶层页面和数据库
+     */
+    public async getWorkspaceRoots(): Promise<ChildPageInfo[]> {
+        const items: PageOrDatabase[] = [];
+        for await (const item of this.searchPaginated()) {
+            // 跳过已归档或移到回收站的对象
+            if (!("parent" in item) || item.archived || ("in_trash" in item && item.in_trash)) {
+                continue;
+            }
+            items.push(item);
+        }
+
+        const accessible = new Set(items.map(item => item.id));
+        const roots = items.filter(item => {
+            const parent = "parent" in item ? item.parent : undefined;
+            switch (parent?.type) {
+                case "page_id":
+                    return !accessible.has(parent.page_id);
+                case "database_id":
+                    return !accessible.has(parent.database_id);
+                default:
+                    return true;
+            }
+        });
+
+        // 按创建时间排序,使重名页面在多次导出中得到相同的文件名
+        const createdTime = (item: PageOrDatabase) => ("created_time" in item ? item.created_time : "");
+        roots.sort((a, b) => createdTime(a).localeCompare(createdTime(b)));
+
+        return roots.map(item => ({
+            id: item.id,
+            title: this.getPageTitle(item),
+            type: item.object === "database" ? "database" : "page",
+        }));
     }
 
     /**
      * 分页查询数据库中的所有条目
      * @param databaseId - 数据库 ID
+     * @param query - 筛选和排序条件
      * @yields 数据库中的每个页面对象
      */
-    public async *queryDatabasePaginated(databaseId: string): AsyncGenerator<PageOrDatabase> {
+    public async *queryDatabasePaginated(databaseId: string, query: DatabaseQuery = {}): AsyncGenerator<PageOrDatabase> {
         interface DatabaseQueryResponse {
             results: PageOrDatabase[];
             has_more: boolean;
@@ -387,7 +425,7 @@ export default class NotionClient {
             const response: DatabaseQueryResponse = await this.notion.request<DatabaseQueryResponse>({
                 path: `databases/${databaseId}/query`,
                 method: "post",
-                body: startCursor ? { start_cursor: startCursor } : {},
+                body: startCursor ? { ...query, start_cursor: startCursor } : { ...query },
             });
 
             for (const page of response.results) {
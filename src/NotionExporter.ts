@@ -1,8 +1,28 @@
-import NotionClient, { propertiesToMarkdown, databaseToMarkdownTable, ChildPageInfo, DatabaseToMarkdownOptions } from "./NotionClient.js";
+import NotionClient, { ChildPageInfo, NotionClientOptions, PageOrDatabase, WORKSPACE_ROOT_ID } from "./NotionClient.js";
 import NotionToMarkdown from "./NotionToMarkdown.js";
-import FileDownloader from "./FileDownloader.js";
-import { mkdir, writeFile } from "fs/promises";
-import { join, normalize } from "path";
+import DatabaseToMarkdown, { DatabaseToMarkdownOptions } from "./DatabaseToMarkdown.js";
+import FileDownloader, { DownloadedFile } from "./FileDownloader.js";
+import ExportManifest, { diffManifestEntries, entryBasePath, entryFiles, ManifestChange, ManifestEntry } from "./ExportManifest.js";
+import ExportCheckpoint from "./ExportCheckpoint.js";
+import ExportReport, { ExportReportData, PageReport, toReportError } from "./ExportReport.js";
+import LinkRewriter, { ExternalLinkMode, normalizeNotionId } from "./LinkRewriter.js";
+import ExportPruner from "./ExportPruner.js";
+import { mapConcurrent } from "./RequestScheduler.js";
+import FileNamer, { detailsDirName, NamingStrategy } from "./FileNamer.js";
+import ExportPlanner, { ExportPlan } from "./ExportPlanner.js";
+import { pageToFrontMatterData, toFrontMatter } from "./FrontMatter.js";
+import { databaseToCsv, databaseToJson, DatabaseFormat } from "./DatabaseSerializer.js";
+import { OutputFlavor, toDataviewFrontMatter } from "./ObsidianMarkdown.js";
+import { buildDatabaseQuery, DatabaseQueryRule } from "./DatabaseQuery.js";
+import PageFilter, { FilterDecision } from "./PageFilter.js";
+import type { TransformerSetting } from "./BlockTransformers.js";
+import GitCommitter, { formatCommitMessage, formatPageCommitMessage } from "./GitCommitter.js";
+import { consoleLogger, ExportErrorEvent, ExportEventMap, Logger } from "./ExportEvents.js";
+import Messages, { defaultMessages } from "./Messages.js";
+import { isFullPage } from "@notionhq/client";
+import { EventEmitter } from "events";
+import { access, mkdir, rename, writeFile } from "fs/promises";
+import { dirname, join, normalize, relative, sep } from "path";
 
 export interface PageInfo {
     id: string;
@@ -15,45 +35,291 @@ export interface ExportOptions {
     rootPageId: string;
     downloadMedia?: boolean; // 是否下载图片和文件
     attachmentsDir?: string; // 附件目录名称
+    incremental?: boolean; // 是否跳过自上次导出后未修改的页面
+    concurrency?: number; // 同级页面和数据库条目的最大并发数
+    externalLinks?: ExternalLinkMode; // 指向未导出页面的链接处理方式
+    frontMatter?: boolean; // 是否在页面文件开头添加 YAML front matter
+    databaseFormats?: DatabaseFormat[]; // 数据库除 Markdown 表格外额外导出的格式
+    resume?: boolean; // 是否从上一次中断的位置继续导出
+    naming?: NamingStrategy; // 文件命名方式
+    flavor?: OutputFlavor; // 输出风格(obsidian 时始终添加 front matter)
+    workspace?: boolean; // 导出集成可以访问的所有顶层页面和数据库(忽略 rootPageId)
+    databaseQueries?: DatabaseQueryRule[]; // 按数据库 ID 或标题指定的筛选和排序规则
+    maxDepth?: number; // 最大导出深度,根页面为 0
+    include?: string[]; // 只导出匹配的页面和数据库(页面 ID、标题或路径)
+    exclude?: string[]; // 跳过匹配的页面和数据库(页面 ID、标题或路径)
+    transformers?: TransformerSetting[]; // 替换指定类型块转换方式的内置或自定义转换器
+    refresh?: string[]; // 增量模式下即使未修改也重新导出的页面(如子页面增删或改名的父页面)
+    prune?: boolean; // 删除上一次导出写入、本次不再导出的页面、数据库和附件文件
+    git?: boolean; // 导出后将写入、移动和删除的文件提交到输出目录所在的 git 仓库
+    gitPerPage?: boolean; // 每个页面单独提交,作者为 Notion 中的最后编辑者(包含 git)
 }
 
 /**
  * Notion 导出器 - 递归导出页面为 Markdown 文件
+ * 导出进度通过事件(pageStarted、pageWritten、pageSkipped、databaseRowsFetched、mediaDownloaded、
+ * pagesDiscovered、requestFinished、downloadFinished、error)通知,日志输出到构造时传入的 logger
  */
-export default class NotionExporter {
+export default class NotionExporter extends EventEmitter<ExportEventMap> {
     private notionClient: NotionClient;
-    private converter: NotionToMarkdown;
+    private logger: Logger;
+    private messages: Messages;
+    private converter!: NotionToMarkdown;
+    private databaseConverter: DatabaseToMarkdown;
     private fileDownloader: FileDownloader;
+    private manifest!: ExportManifest;
+    private checkpoint!: ExportCheckpoint;
+    private report!: ExportReport;
+    private fileNamer!: FileNamer;
+    private aborted: boolean = false;
+    private outputDir: string = "";
+    private incremental: boolean = false;
+    private concurrency: number = 3;
+    private frontMatter: boolean = false;
+    private flavor: OutputFlavor = "markdown";
+    private databaseFormats: DatabaseFormat[] = [];
+    private databaseQueries: DatabaseQueryRule[] = [];
+    private pageFilter!: PageFilter;
+    private refresh: Set<string> = new Set();
+    private touched: Set<string> = new Set();
+    private incompletePaths: string[] = [];   // 未能遍历完的路径(相对输出目录)
 
-    constructor(apiKey: string) {
-        this.notionClient = new NotionClient(apiKey);
-        this.converter = new NotionToMarkdown(this.notionClient.getClient());
-        this.fileDownloader = new FileDownloader();
+    /**
+     * @param apiKey - Notion API 密钥
+     * @param options - 请求限速、重试、日志和录制回放选项
+     */
+    constructor(apiKey: string, options: NotionClientOptions = {}) {
+        super();
+        this.logger = options.logger ?? consoleLogger;
+        this.messages = options.messages ?? defaultMessages;
+        this.notionClient = new NotionClient(apiKey, {
+            ...options,
+            logger: this.logger,
+            messages: this.messages,
+            onRequest: event => {
+                options.onRequest?.(event);
+                this.emit("requestFinished", event);
+            },
+        });
+        this.databaseConverter = new DatabaseToMarkdown(this.notionClient, this.logger, this.messages);
+        this.fileDownloader = new FileDownloader(this.logger, options.cassette, this.messages, event => this.emit("downloadFinished", event));
+    }
+
+    /**
+     * 获取 Notion 客户端(与导出器共用限速和重试)
+     */
+    public getNotionClient(): NotionClient {
+        return this.notionClient;
     }
 
     /**
      * 导出单个页面及其所有子页面
      * @param options - 导出选项
+     * @returns 导出报告(各页面的状态、耗时以及失败的页面和文件下载)
      */
-    public async export(options: ExportOptions): Promise<void> {
-        const { outputDir, rootPageId, downloadMedia = true, attachmentsDir = "attachments" } = options;
+    public async export(options: ExportOptions): Promise<ExportReportData> {
+        const {
+            outputDir,
+            rootPageId,
+            downloadMedia = true,
+            attachmentsDir = "attachments",
+            incremental = false,
+            concurrency = 3,
+            externalLinks = "keep",
+            frontMatter = false,
+            databaseFormats = [],
+            resume = false,
+            naming = "title",
+            flavor = "markdown",
+            workspace = false,
+            databaseQueries = [],
+            maxDepth,
+            include = [],
+            exclude = [],
+            transformers = [],
+            refresh = [],
+            prune = false,
+            gitPerPage = false,
+            git = gitPerPage,
+        } = options;
+        const exportRootId = workspace ? WORKSPACE_ROOT_ID : rootPageId;
 
-        console.log(`开始导出页面: ${rootPageId}`);
-        console.log(`输出目录: ${outputDir}`);
+        this.logger.info(workspace ? this.messages.t("export.startWorkspace") : this.messages.t("export.start", { id: rootPageId }));
+        this.logger.info(this.messages.t("export.outputDir", { dir: outputDir }));
         if (downloadMedia) {
-            console.log(`将下载图片和文件到: ${attachmentsDir}/`);
+            this.logger.info(this.messages.t("export.downloadTo", { dir: attachmentsDir }));
+        }
+        if (incremental) {
+            this.logger.info(this.messages.t("export.incremental"));
         }
-        console.log();
+        this.logger.info("");
 
         await mkdir(outputDir, { recursive: true });
-        await this.exportPageRecursive(rootPageId, outputDir, downloadMedia, attachmentsDir);
 
-        console.log("\n✅ 导出完成!");
+        // 导出前确认输出目录位于 git 仓库中,避免导出完成后才失败
+        const committer = git ? new GitCommitter(outputDir, this.messages) : undefined;
+        await committer?.ensureRepository();
+
+        this.outputDir = outputDir;
+        this.incremental = incremental;
+        this.concurrency = concurrency;
+        this.frontMatter = frontMatter || flavor === "obsidian";
+        this.flavor = flavor;
+        this.converter = new NotionToMarkdown(this.notionClient.getClient(), flavor, transformers, this.messages);
+        this.databaseFormats = databaseFormats;
+        this.databaseQueries = databaseQueries;
+        this.pageFilter = new PageFilter({ maxDepth, include, exclude, messages: this.messages });
+        this.refresh = new Set(refresh.map(normalizeNotionId));
+        this.touched = new Set();
+        this.incompletePaths = [];
+        this.aborted = false;
+        this.report = new ExportReport(exportRootId);
+        this.manifest = await ExportManifest.load(outputDir, exportRootId);
+        this.checkpoint = await ExportCheckpoint.open(outputDir, exportRootId, resume, this.logger, this.messages);
+        this.fileNamer = this.createFileNamer(this.manifest, naming);
+
+        // 沿用之前下载的附件,Notion 文件地址的签名每次都不同,按不含签名的地址匹配
+        const knownAttachments = new Map<string, DownloadedFile>();
+        for (const [key, path] of this.manifest.getAttachments()) {
+            knownAttachments.set(key, { originalUrl: key, localPath: join(outputDir, path) });
+        }
+        this.fileDownloader.restore(knownAttachments);
+
+        // 恢复上一次中断前已完成的页面和附件
+        const completedEntries = this.checkpoint.entries();
+        if (completedEntries.length > 0) {
+            this.logger.info(`${this.messages.t("export.resumed", { count: completedEntries.length })}\n`);
+            for (const entry of completedEntries) {
+                this.manifest.restore(entry);
+            }
+            for (const [key, file] of this.checkpoint.attachments()) {
+                this.manifest.setAttachment(key, this.toOutputPath(file.localPath));
+            }
+            this.fileDownloader.restore(this.checkpoint.attachments());
+        }
+
+        if (workspace) {
+            await this.exportWorkspace(downloadMedia, attachmentsDir);
+        } else if (this.pageFilter.hasRules()) {
+            // 根页面同样按规则匹配,需要先获取标题以确定路径
+            const page = await this.notionClient.getPage(rootPageId);
+            const root: ChildPageInfo = { id: rootPageId, title: this.notionClient.getPageTitle(page), type: "page" };
+            const name = this.assignFileName(outputDir, root);
+            const decision = this.pageFilter.decide(root, name, 0);
+            this.discover(undefined, [decision]);
+            await this.exportFiltered(root, decision, outputDir, name, downloadMedia, attachmentsDir, 0);
+        } else {
+            this.emit("pagesDiscovered", { count: 1 });
+            await this.exportPageRecursive(rootPageId, outputDir, downloadMedia, attachmentsDir);
+        }
+
+        if (this.aborted) {
+            await this.checkpoint.flush();
+            this.logger.info(`\n${this.messages.t("export.aborted")}`);
+            return this.report.build(this.fileDownloader.getDownloadCount(), true);
+        }
+
+        // 所有页面写入后,将指向已导出页面的 Notion 链接替换为相对路径
+        const linkRewriter = new LinkRewriter(outputDir, this.manifest, externalLinks, flavor, this.messages);
+        const rewrittenFiles = await linkRewriter.rewriteAll();
+        if (rewrittenFiles.length > 0) {
+            this.logger.info(`\n${this.messages.t("export.linksRewritten", { count: rewrittenFiles.length })}`);
+        }
+        for (const file of rewrittenFiles) {
+            this.touched.add(file);
+        }
+
+        // 导出失败的页面及未能遍历完的路径保留上一次的文件和记录,下一次导出时重试
+        this.manifest.retainFailed(this.report.failedIds(), this.incompletePaths);
+
+        // 删除已删除或移出导出范围的页面和不再引用的附件留下的文件
+        if (prune) {
+            const removed = await new ExportPruner(outputDir, this.manifest, this.messages).prune();
+            if (removed.length > 0) {
+                this.logger.info(`\n${this.messages.t("export.pruned", { count: removed.length })}`);
+            }
+            for (const path of removed) {
+                this.logger.info(`  🗑️  ${path}`);
+                this.touched.add(path);
+            }
+        }
+
+        // 无论是否为增量模式都写入清单,供下一次增量导出使用
+        await this.manifest.save();
+        this.touched.add(ExportManifest.FILE_NAME);
+        await this.checkpoint.remove();
+
+        if (committer) {
+            await this.commitChanges(committer, gitPerPage);
+        }
+
+        const report = this.report.build(this.fileDownloader.getDownloadCount(), false);
+        if (report.status === "failed") {
+            const { failed, failedDownloads } = report.counts;
+            this.logger.info(`\n${this.messages.t("export.finishedWithFailures", { failed, failedDownloads })}`);
+        } else {
+            this.logger.info(`\n${this.messages.t("export.finished")}`);
+        }
 
         if (downloadMedia) {
-            const totalFiles = this.fileDownloader.getDownloadedFiles().size;
-            console.log(`📦 共下载 ${totalFiles} 个文件`);
+            this.logger.info(this.messages.t("export.downloads", { count: report.counts.downloads }));
+        }
+
+        return report;
+    }
+
+    /**
+     * 生成导出计划:只读取页面结构和数据库条目,不写入任何文件
+     * @param options - 导出选项
+     * @returns 导出计划
+     */
+    public async plan(options: ExportOptions): Promise<ExportPlan> {
+        // 读取上一次导出的清单,使预览的文件名与实际导出一致
+        const manifest = await ExportManifest.load(options.outputDir, options.workspace ? WORKSPACE_ROOT_ID : options.rootPageId);
+        const planner = new ExportPlanner(this.notionClient, {
+            concurrency: options.concurrency,
+            databaseFormats: options.databaseFormats,
+            databaseQueries: options.databaseQueries,
+            fileNamer: this.createFileNamer(manifest, options.naming ?? "title"),
+            pageFilter: new PageFilter({ maxDepth: options.maxDepth, include: options.include, exclude: options.exclude, messages: this.messages }),
+            messages: this.messages,
+        });
+
+        if (options.workspace) {
+            return planner.planWorkspace(await this.notionClient.getWorkspaceRoots());
         }
+        return planner.plan(options.rootPageId);
+    }
+
+    /**
+     * 中断导出:不再开始新的页面,等待进行中的页面完成后保存断点
+     */
+    public abort(): void {
+        this.aborted = true;
+    }
+
+    /**
+     * 上一次导出是否被中断
+     */
+    public isAborted(): boolean {
+        return this.aborted;
+    }
+
+    /**
+     * 导出工作区中的所有顶层页面和数据库,直接写入输出目录
+     * @param downloadMedia - 是否下载图片和文件
+     * @param attachmentsDir - 附件目录名称
+     */
+    private async exportWorkspace(downloadMedia: boolean, attachmentsDir: string): Promise<void> {
+        const roots = await this.notionClient.getWorkspaceRoots();
+        this.logger.info(`${this.messages.t("export.workspaceRoots", { count: roots.length })}\n`);
+
+        const names = await this.assignChildFileNames(this.outputDir, roots);
+        const decisions = roots.map(root => this.pageFilter.decide(root, names.get(root.id)!, 0));
+        this.discover(undefined, decisions);
+        await mapConcurrent(roots, this.concurrency, async (root, index) => {
+            await this.exportFiltered(root, decisions[index], this.outputDir, names.get(root.id)!, downloadMedia, attachmentsDir, 0);
+        });
     }
 
     /**
@@ -71,24 +337,70 @@ export default class NotionExporter {
         attachmentsDir: string = "attachments",
         depth: number = 0
     ): Promise<void> {
+        if (this.aborted) {
+            return;
+        }
+
         const indent = "  ".repeat(depth);
+        const startTime = Date.now();
+
+        // 断点续传时已完成的页面不再重新获取,直接继续遍历子页面
+        const completed = this.checkpoint.getCompleted(pageId);
+        if (completed) {
+            const completedName = this.assignFileName(currentDir, { id: pageId, title: completed.title, type: "page" });
+            this.logger.info(`${indent}${this.messages.t("export.pageResumed", { name: completedName })}`);
+            this.record({
+                id: pageId,
+                type: "page",
+                title: completed.title,
+                status: "resumed",
+                outputPath: completed.outputPath,
+                durationMs: Date.now() - startTime,
+            });
+            await this.exportChildren(pageId, completed.children, currentDir, completed.title, completedName, downloadMedia, attachmentsDir, depth);
+            return;
+        }
 
+        let title: string | undefined;
         try {
             // 获取页面信息
             const page = await this.notionClient.getPage(pageId);
-            const title = this.notionClient.getPageTitle(page);
-            const safeTitle = this.sanitizeFileName(title || "Untitled");
+            title = this.notionClient.getPageTitle(page);
+            const lastEditedTime = isFullPage(page) ? page.last_edited_time : "";
+
+            // 子页面的文件名已由父页面统一分配,标题与父页面记录的不同时重新分配并移动旧文件
+            const safeTitle = this.assignFileName(currentDir, { id: pageId, title, type: "page" });
+            await this.relocate({ id: pageId, title, type: "page" }, join(currentDir, safeTitle));
+            const filePath = join(currentDir, `${safeTitle}.md`);
+
+            // 增量模式下未修改且无需刷新的页面沿用上一次的导出结果,但仍需遍历子页面
+            if (this.incremental && !this.refresh.has(normalizeNotionId(pageId)) && await this.isPageUnchanged(pageId, lastEditedTime, filePath)) {
+                const entry = this.manifest.carryOver(pageId)!;
+                this.checkpoint.record(entry);
+                this.logger.info(`${indent}${this.messages.t("export.pageUnchanged", { name: safeTitle })}`);
+                this.record({
+                    id: pageId,
+                    type: "page",
+                    title,
+                    status: "unchanged",
+                    outputPath: entry.outputPath,
+                    durationMs: Date.now() - startTime,
+                });
+                await this.exportChildren(pageId, entry.children, currentDir, title, safeTitle, downloadMedia, attachmentsDir, depth);
+                return;
+            }
 
-            console.log(`${indent}📄 导出: ${safeTitle}`);
+            this.logger.info(`${indent}${this.messages.t("export.page", { name: safeTitle })}`);
+            this.emit("pageStarted", { id: pageId, type: "page", title, depth });
 
             // 转换为 Markdown
             let markdown = await this.converter.pageToMarkdown(pageId);
 
             // 如果内容为空,尝试从页面属性中生成内容
             if (!markdown || markdown.trim() === "") {
-                const propertiesMarkdown = propertiesToMarkdown(page);
+                const propertiesMarkdown = await this.databaseConverter.propertiesToMarkdown(page);
                 if (propertiesMarkdown) {
-                    console.log(`${indent}  ℹ️  页面内容块为空,导出页面属性`);
+                    this.logger.info(`${indent}  ${this.messages.t("export.pageProperties")}`);
                     markdown = propertiesMarkdown;
                 }
             }
@@ -98,16 +410,17 @@ export default class NotionExporter {
             const hasChildren = childPages.length > 0;
 
             // 检查是否有实际内容（排除占位符文本）
-            const placeholderText = "_此页面仅包含标题,无其他内容_";
+            const placeholderText = this.messages.t("content.titleOnly");
             const isPlaceholderOnly = markdown?.trim() === placeholderText;
             const hasContent = markdown !== undefined && markdown !== null && markdown.trim() !== "" && !isPlaceholderOnly;
+            const attachments: string[] = [];
 
             // 如果有子页面但内容为空或只有占位符，不创建与目录同名的空 MD 文件
             if (!hasContent && hasChildren) {
-                console.warn(`${indent}  ⚠️  页面内容为空,跳过创建与目录同名的空文件`);
+                this.logger.warn(`${indent}  ${this.messages.t("export.pageEmptyWithChildren")}`);
             } else if (!hasContent) {
                 // 无子页面且内容为空：跳过
-                console.warn(`${indent}  ⚠️  页面内容为空,跳过写入文件`);
+                this.logger.warn(`${indent}  ${this.messages.t("export.pageEmpty")}`);
             } else {
                 // 如果启用了文件下载
                 if (downloadMedia && markdown) {
@@ -115,71 +428,221 @@ export default class NotionExporter {
                     const mediaLinks = this.converter.extractMediaLinks(markdown);
 
                     if (mediaLinks.length > 0) {
-                        console.log(`${indent}  📥 发现 ${mediaLinks.length} 个媒体文件`);
+                        this.logger.info(`${indent}  ${this.messages.t("export.mediaFound", { count: mediaLinks.length })}`);
                         const urlMapping = new Map<string, string>();
+                        const embedMapping = new Map<string, string>();
 
-                        // 下载所有文件
+                        // 下载所有文件(所有页面共用输出目录下的附件目录)
                         for (const media of mediaLinks) {
                             try {
                                 const downloaded = await this.fileDownloader.downloadFile(
                                     media.url,
-                                    currentDir,
-                                    attachmentsDir
+                                    join(this.outputDir, attachmentsDir)
                                 );
 
                                 // 记录 URL 映射
-                                urlMapping.set(media.url, downloaded.relativePath);
-                                console.log(`${indent}     ✓ ${media.type === "image" ? "图片" : "文件"}: ${media.altText || downloaded.relativePath}`);
+                                const relativePath = relative(currentDir, downloaded.localPath).split(sep).join("/");
+                                urlMapping.set(media.url, relativePath);
+
+                                const cacheKey = this.fileDownloader.getCacheKey(media.url);
+                                const outputPath = this.toOutputPath(downloaded.localPath);
+                                embedMapping.set(media.url, outputPath);
+                                this.checkpoint.recordAttachment(cacheKey, downloaded);
+                                this.manifest.setAttachment(cacheKey, outputPath);
+                                this.touched.add(outputPath);
+                                attachments.push(outputPath);
+                                const name = media.altText || relativePath;
+                                this.logger.info(`${indent}     ${this.messages.t(media.type === "image" ? "export.imageDownloaded" : "export.fileDownloaded", { name })}`);
+                                this.emit("mediaDownloaded", { pageId, url: media.url, localPath: outputPath });
                             } catch (error) {
-                                console.error(`${indent}     ✗ 下载失败: ${media.url}`);
+                                this.logger.error(`${indent}     ${this.messages.t("export.downloadFailed", { url: media.url })}`);
+                                this.report.recordFailedDownload(pageId, media.url, error);
+                                this.emitError({ id: pageId, type: "download", title, url: media.url, error: toReportError(error) });
                             }
                         }
 
-                        // 替换 Markdown 中的 URL
-                        markdown = this.converter.replaceMediaUrls(markdown, urlMapping);
+                        // 替换 Markdown 中的 URL(Obsidian 风格下替换为按仓库路径的嵌入)
+                        markdown = this.flavor === "obsidian"
+                            ? this.converter.replaceMediaEmbeds(markdown, embedMapping)
+                            : this.converter.replaceMediaUrls(markdown, urlMapping);
                     }
                 }
 
+                // 添加页面元数据和属性
+                if (this.frontMatter && isFullPage(page)) {
+                    const data = await pageToFrontMatterData(page, title, userId => this.notionClient.getUserName(userId));
+                    markdown = toFrontMatter(this.flavor === "obsidian" ? toDataviewFrontMatter(data) : data) + markdown;
+                }
+
                 // 写入文件
-                const filePath = join(currentDir, `${safeTitle}.md`);
-                await writeFile(filePath, markdown, "utf-8");
+                await this.writeOutput(filePath, markdown);
             }
 
-            // 筛选出子数据库
-            const childDatabases = childPages.filter(child => child.type === "database");
+            // 筛选出子数据库(按规则跳过的数据库不添加链接)
+            const childNames = this.fileNamer.assign(this.toOutputPath(join(currentDir, safeTitle)), childPages);
+            const childDatabases = childPages.filter(child => child.type === "database"
+                && this.pageFilter.peek(child, this.toOutputPath(join(currentDir, safeTitle, childNames.get(child.id)!)), depth + 1) === "export");
 
             // 如果有子数据库，在页面内容末尾添加关联链接
             if (childDatabases.length > 0 && hasContent) {
-                let databaseLinks = "\n\n---\n\n## 📊 关联数据库\n\n";
+                let databaseLinks = `\n\n---\n\n## ${this.messages.t("content.relatedDatabases")}\n\n`;
                 for (const db of childDatabases) {
-                    const safeDbTitle = this.sanitizeFileName(db.title || "Untitled Database");
-                    databaseLinks += `- [${db.title}](${encodeURIComponent(safeTitle)}/${encodeURIComponent(safeDbTitle)}.md)\n`;
+                    const dbFileName = childNames.get(db.id)!;
+                    databaseLinks += `- [${db.title}](${encodeURIComponent(safeTitle)}/${encodeURIComponent(dbFileName)}.md)\n`;
                 }
 
                 // 重新写入带有数据库链接的内容
-                const filePath = join(currentDir, `${safeTitle}.md`);
-                await writeFile(filePath, markdown + databaseLinks, "utf-8");
+                await this.writeOutput(filePath, markdown + databaseLinks);
             }
 
-            if (hasChildren) {
-                console.log(`${indent}  └─ 发现 ${childPages.length} 个子页面`);
+            this.complete({
+                id: pageId,
+                type: "page",
+                title,
+                lastEditedTime,
+                lastEditedBy: isFullPage(page) ? page.last_edited_by.id : undefined,
+                basePath: this.toOutputPath(join(currentDir, safeTitle)),
+                outputPath: hasContent ? this.toOutputPath(filePath) : undefined,
+                attachments,
+                children: childPages,
+            });
+            this.record({
+                id: pageId,
+                type: "page",
+                title,
+                status: "exported",
+                outputPath: hasContent ? this.toOutputPath(filePath) : undefined,
+                durationMs: Date.now() - startTime,
+            });
 
-                // 创建子目录
-                const subDir = join(currentDir, safeTitle);
-                await mkdir(subDir, { recursive: true });
+            await this.exportChildren(pageId, childPages, currentDir, title, safeTitle, downloadMedia, attachmentsDir, depth);
+        } catch (error) {
+            this.logger.error(`${indent}${this.messages.t("export.pageFailed", { id: pageId, error: error instanceof Error ? error.message : String(error) })}`);
+            this.record({
+                id: pageId,
+                type: "page",
+                title,
+                status: "failed",
+                durationMs: Date.now() - startTime,
+                error: toReportError(error),
+            });
+        }
+    }
 
-                // 递归导出子页面
-                for (const childPage of childPages) {
-                    // 根据类型区分处理页面和数据库
-                    if (childPage.type === "database") {
-                        await this.exportDatabaseRecursive(childPage.id, subDir, downloadMedia, attachmentsDir, depth + 1, safeTitle);
-                    } else {
-                        await this.exportPageRecursive(childPage.id, subDir, downloadMedia, attachmentsDir, depth + 1);
-                    }
-                }
+    /**
+     * 导出页面的子页面和子数据库到与页面同名的子目录
+     * @param parentId - 页面 ID
+     * @param childPages - 子页面信息数组
+     * @param currentDir - 页面所在目录
+     * @param title - 页面标题
+     * @param safeTitle - 页面的文件名(子目录名称)
+     * @param downloadMedia - 是否下载图片和文件
+     * @param attachmentsDir - 附件目录名称
+     * @param depth - 页面的递归深度
+     */
+    private async exportChildren(
+        parentId: string,
+        childPages: ChildPageInfo[],
+        currentDir: string,
+        title: string,
+        safeTitle: string,
+        downloadMedia: boolean,
+        attachmentsDir: string,
+        depth: number
+    ): Promise<void> {
+        if (childPages.length === 0) {
+            return;
+        }
+
+        const indent = "  ".repeat(depth);
+        this.logger.info(`${indent}  ${this.messages.t("export.childPagesFound", { count: childPages.length })}`);
+
+        // 按深度和规则决定是否导出子页面,全部跳过时不创建子目录
+        const subDir = join(currentDir, safeTitle);
+        const names = this.fileNamer.assign(this.toOutputPath(subDir), childPages);
+        const decisions = childPages.map(child =>
+            this.pageFilter.decide(child, this.toOutputPath(join(subDir, names.get(child.id)!)), depth + 1)
+        );
+        this.discover(parentId, decisions);
+        if (decisions.every(decision => decision === "skip")) {
+            this.logger.info(`${indent}  ${this.messages.t("export.childPagesFiltered")}`);
+            for (const child of childPages) {
+                this.emit("pageSkipped", { id: child.id, type: child.type, title: child.title, reason: "filtered" });
             }
-        } catch (error) {
-            console.error(`${indent}❌ 导出失败 (${pageId}):`, error instanceof Error ? error.message : String(error));
+            return;
+        }
+
+        // 创建子目录
+        await mkdir(subDir, { recursive: true });
+
+        // 先为同级页面分配文件名并移动改名的文件,再并发导出,避免新文件与待移动的旧文件冲突
+        await this.assignChildFileNames(subDir, childPages);
+
+        // 递归导出子页面(同级页面并发导出)
+        await mapConcurrent(childPages, this.concurrency, async (childPage, index) => {
+            await this.exportFiltered(
+                childPage,
+                decisions[index],
+                subDir,
+                names.get(childPage.id)!,
+                downloadMedia,
+                attachmentsDir,
+                depth + 1,
+                title,
+                safeTitle
+            );
+        });
+    }
+
+    /**
+     * 按过滤结果导出页面或数据库
+     * @param item - 页面或数据库信息
+     * @param decision - 过滤结果
+     * @param currentDir - 所在目录
+     * @param name - 分配的文件名
+     * @param downloadMedia - 是否下载图片和文件
+     * @param attachmentsDir - 附件目录名称
+     * @param depth - 递归深度
+     * @param parentPageTitle - 父页面标题(用于数据库的返回链接)
+     * @param parentFileName - 父页面的文件名(用于数据库的返回链接)
+     */
+    private async exportFiltered(
+        item: ChildPageInfo,
+        decision: FilterDecision,
+        currentDir: string,
+        name: string,
+        downloadMedia: boolean,
+        attachmentsDir: string,
+        depth: number,
+        parentPageTitle?: string,
+        parentFileName?: string
+    ): Promise<void> {
+        if (this.aborted) {
+            return;
+        }
+
+        const indent = "  ".repeat(depth);
+        if (decision === "skip") {
+            this.logger.info(`${indent}${this.messages.t("export.filtered", { name })}`);
+            this.emit("pageSkipped", { id: item.id, type: item.type, title: item.title, reason: "filtered" });
+        } else if (decision === "traverse") {
+            // 页面本身不导出,只查找其下匹配 include 规则的子页面
+            this.logger.info(`${indent}${this.messages.t("export.traverse", { name })}`);
+            let childPages: ChildPageInfo[];
+            try {
+                childPages = await this.notionClient.getChildPages(item.id);
+            } catch (error) {
+                // 无法获取子页面时记为失败,其下上一次导出的页面予以保留
+                this.logger.error(`${indent}${this.messages.t("export.pageFailed", { id: item.id, error: error instanceof Error ? error.message : String(error) })}`);
+                this.record({ id: item.id, type: "page", title: item.title, status: "failed", durationMs: 0, error: toReportError(error) });
+                this.incompletePaths.push(this.toOutputPath(join(currentDir, name)));
+                return;
+            }
+            await this.exportChildren(item.id, childPages, currentDir, item.title, name, downloadMedia, attachmentsDir, depth);
+        } else if (item.type === "database") {
+            await this.exportDatabaseRecursive(item.id, currentDir, downloadMedia, attachmentsDir, depth, parentPageTitle, parentFileName);
+        } else {
+            await this.exportPageRecursive(item.id, currentDir, downloadMedia, attachmentsDir, depth);
         }
     }
 
@@ -191,6 +654,7 @@ export default class NotionExporter {
      * @param attachmentsDir - 附件目录名称
      * @param depth - 当前递归深度(用于日志缩进)
      * @param parentPageTitle - 父页面标题(用于生成返回链接)
+     * @param parentFileName - 父页面的文件名(用于生成返回链接)
      */
     private async exportDatabaseRecursive(
         databaseId: string,
@@ -198,100 +662,516 @@ export default class NotionExporter {
         downloadMedia: boolean = false,
         attachmentsDir: string = "attachments",
         depth: number = 0,
-        parentPageTitle?: string
+        parentPageTitle?: string,
+        parentFileName?: string
     ): Promise<void> {
+        if (this.aborted) {
+            return;
+        }
+
         const indent = "  ".repeat(depth);
+        const startTime = Date.now();
 
+        // 断点续传时已写入表格的数据库只继续导出有详情的条目
+        const completed = this.checkpoint.getCompleted(databaseId);
+        if (completed) {
+            const completedName = this.assignFileName(currentDir, { id: databaseId, title: completed.title, type: "database" });
+            this.logger.info(`${indent}${this.messages.t("export.databaseResumed", { name: completedName })}`);
+            this.record({
+                id: databaseId,
+                type: "database",
+                title: completed.title,
+                status: "resumed",
+                outputPath: completed.outputPath,
+                durationMs: Date.now() - startTime,
+            });
+            const detailsDir = join(currentDir, detailsDirName(completedName, this.messages));
+            this.emit("pagesDiscovered", { parentId: databaseId, count: completed.children.length });
+            const rowNames = await this.assignChildFileNames(detailsDir, completed.children);
+            const rows = this.filterRows(completed.children, rowNames, detailsDir, depth + 1);
+            await mapConcurrent(rows, this.concurrency, async row => {
+                await this.exportPageRecursive(row.id, detailsDir, downloadMedia, attachmentsDir, depth + 1);
+            });
+            return;
+        }
+
+        let title: string | undefined;
         try {
             // 获取数据库信息
             const database = await this.notionClient.getPageOrDatabase(databaseId, "database");
-            const title = this.notionClient.getPageTitle(database);
-            const safeTitle = this.sanitizeFileName(title || "Untitled Database");
+            title = this.notionClient.getPageTitle(database);
+            const safeTitle = this.assignFileName(currentDir, { id: databaseId, title, type: "database" });
+            await this.relocate({ id: databaseId, title, type: "database" }, join(currentDir, safeTitle));
+            const lastEditedTime = "last_edited_time" in database ? database.last_edited_time : "";
+            const lastEditedBy = "last_edited_by" in database ? database.last_edited_by.id : undefined;
 
-            console.log(`${indent}🗄️  导出数据库: ${safeTitle}`);
+            this.logger.info(`${indent}${this.messages.t("export.database", { name: safeTitle })}`);
+            this.emit("pageStarted", { id: databaseId, type: "database", title, depth });
 
-            // 查询数据库中的所有页面（使用分页 API 确保获取所有记录）
+            // 查询数据库中的所有页面（使用分页 API 确保获取所有记录）,按规则筛选和排序
+            const query = buildDatabaseQuery(this.databaseQueries, database, title, this.messages);
+            if (query.filter || query.sorts) {
+                const key = query.filter && query.sorts ? "export.rowsFilteredSorted" : query.filter ? "export.rowsFiltered" : "export.rowsSorted";
+                this.logger.info(`${indent}  ${this.messages.t(key)}`);
+            }
             const allPages: any[] = [];
-            for await (const page of this.notionClient.queryDatabasePaginated(databaseId)) {
+            for await (const page of this.notionClient.queryDatabasePaginated(databaseId, query)) {
                 allPages.push(page);
             }
+            this.emit("databaseRowsFetched", { databaseId, title, rowCount: allPages.length });
 
             if (allPages.length > 0) {
-                console.log(`${indent}  └─ 发现 ${allPages.length} 个数据库条目,导出为表格`);
+                this.logger.info(`${indent}  ${this.messages.t("export.rowsFound", { count: allPages.length })}`);
 
                 // 先检查每个条目是否有详情内容，收集有详情的页面ID
-                const detailsDirName = `${safeTitle}_详情`;
-                const detailsDir = join(currentDir, detailsDirName);
+                const detailsDir = join(currentDir, detailsDirName(safeTitle, this.messages));
                 const pagesWithDetails = new Set<string>();
 
-                for (const page of allPages) {
+                const previousDatabase = this.manifest.getPrevious(databaseId);
+
+                // 超过最大深度时条目不导出详情,无需检查;按 ID 或标题排除的条目同样不检查
+                const rowsAllowed = this.pageFilter.allowsDepth(depth + 1);
+                const uncheckedRows = new Set<string>();
+                const candidateRows = rowsAllowed ? allPages.filter(page => {
+                    const row: ChildPageInfo = { id: page.id, title: this.notionClient.getPageTitle(page), type: "page" };
+                    if (this.pageFilter.mayExport(row, this.toOutputPath(detailsDir), depth + 1)) {
+                        return true;
+                    }
+                    uncheckedRows.add(page.id);
+                    this.logger.info(`${indent}  ${this.messages.t("export.filtered", { name: row.title })}`);
+                    this.emit("pageSkipped", { id: row.id, type: "page", title: row.title, reason: "filtered" });
+                    return false;
+                }) : [];
+                await mapConcurrent(candidateRows, this.concurrency, async page => {
                     if ("id" in page) {
-                        // 检查页面是否有内容块或子页面
-                        const pageBlocks = await this.notionClient.getClient().blocks.children.list({
-                            block_id: page.id,
-                        });
+                        // 增量模式下未修改的条目沿用上一次的检查结果
+                        const previousRow = this.manifest.getPrevious(page.id);
+                        if (this.incremental && previousDatabase && previousRow && previousRow.lastEditedTime === page.last_edited_time) {
+                            if (previousDatabase.children.some(child => child.id === page.id)) {
+                                pagesWithDetails.add(page.id);
+                            }
+                            return;
+                        }
 
-                        const childPages = await this.notionClient.getChildPages(page.id);
+                        // 检查页面是否有内容块(子页面同样是块)
+                        try {
+                            const pageBlocks = await this.notionClient.getClient().blocks.children.list({
+                                block_id: page.id,
+                            });
 
-                        // 记录有详情内容的页面
-                        if (pageBlocks.results.length > 0 || childPages.length > 0) {
+                            // 记录有详情内容的页面
+                            if (pageBlocks.results.length > 0) {
+                                pagesWithDetails.add(page.id);
+                            }
+                        } catch (error) {
+                            // 无法检查时按有详情处理,由导出条目时重试并记录失败,避免详情文件被当作已删除
+                            this.logger.warn(`${indent}  ${this.messages.t("export.rowCheckFailed", { id: page.id, error: error instanceof Error ? error.message : String(error) })}`);
                             pagesWithDetails.add(page.id);
                         }
                     }
-                }
+                });
+
+                // 为有详情的条目分配文件名
+                const detailRows: ChildPageInfo[] = allPages
+                    .filter(page => "id" in page && pagesWithDetails.has(page.id))
+                    .map(page => ({ id: page.id, title: this.notionClient.getPageTitle(page), type: "page" }));
+                this.emit("pagesDiscovered", { parentId: databaseId, count: detailRows.length });
+                const rowNames = await this.assignChildFileNames(detailsDir, detailRows);
+                const exportedRows = this.filterRows(detailRows, rowNames, detailsDir, depth + 1);
+                const exportedRowNames = new Map(exportedRows.map(row => [row.id, rowNames.get(row.id)!]));
 
                 // 将数据库转换为 Markdown 表格，包含关联信息
                 const tableOptions: DatabaseToMarkdownOptions = {
-                    databaseName: safeTitle,
+                    databaseName: title,
                     parentPageTitle: parentPageTitle,
-                    detailsDir: detailsDirName,
-                    pagesWithDetails: pagesWithDetails,
+                    parentFileName: parentFileName,
+                    detailsDir: detailsDirName(safeTitle, this.messages),
+                    pagesWithDetails: exportedRowNames,
                 };
-                const tableMarkdown = databaseToMarkdownTable(allPages, tableOptions);
+                const tableMarkdown = await this.databaseConverter.databaseToMarkdownTable(allPages, tableOptions);
 
                 // 写入表格文件
                 const filePath = join(currentDir, `${safeTitle}.md`);
-                await writeFile(filePath, tableMarkdown, "utf-8");
+                await this.writeOutput(filePath, tableMarkdown);
+                const additionalFiles = await this.writeDatabaseFormats(database, title, allPages, currentDir, safeTitle);
+
+                // 记录数据库及无详情的条目,有详情的条目在导出时记录,未检查的条目不记录
+                for (const page of allPages) {
+                    if ("id" in page && !pagesWithDetails.has(page.id) && !uncheckedRows.has(page.id)) {
+                        this.complete({
+                            id: page.id,
+                            type: "page",
+                            title: this.notionClient.getPageTitle(page),
+                            lastEditedTime: page.last_edited_time ?? "",
+                            lastEditedBy: page.last_edited_by?.id,
+                            databaseId,
+                            attachments: [],
+                            children: [],
+                        });
+                    }
+                }
+                this.complete({
+                    id: databaseId,
+                    type: "database",
+                    title,
+                    lastEditedTime,
+                    lastEditedBy,
+                    basePath: this.toOutputPath(join(currentDir, safeTitle)),
+                    outputPath: this.toOutputPath(filePath),
+                    additionalFiles,
+                    attachments: [],
+                    // 未检查详情时沿用上一次的结果,供之后不限深度或不排除条目的增量导出判断
+                    children: rowsAllowed
+                        ? [...detailRows, ...(previousDatabase?.children ?? []).filter(child => uncheckedRows.has(child.id))]
+                        : previousDatabase?.children ?? [],
+                });
+                this.record({
+                    id: databaseId,
+                    type: "database",
+                    title,
+                    status: "exported",
+                    outputPath: this.toOutputPath(filePath),
+                    durationMs: Date.now() - startTime,
+                });
 
                 // 导出有详情内容的页面
-                if (pagesWithDetails.size > 0) {
+                if (exportedRows.length > 0) {
                     await mkdir(detailsDir, { recursive: true });
 
-                    for (const page of allPages) {
-                        if ("id" in page && pagesWithDetails.has(page.id)) {
-                            await this.exportPageRecursive(page.id, detailsDir, downloadMedia, attachmentsDir, depth + 1);
-                        }
-                    }
+                    await mapConcurrent(exportedRows, this.concurrency, async row => {
+                        await this.exportPageRecursive(row.id, detailsDir, downloadMedia, attachmentsDir, depth + 1);
+                    });
 
-                    console.log(`${indent}  └─ 详细内容已导出到: ${detailsDirName}/`);
+                    this.logger.info(`${indent}  ${this.messages.t("export.rowDetails", { dir: detailsDirName(safeTitle, this.messages) })}`);
                 }
             } else {
-                console.log(`${indent}  └─ 数据库为空`);
+                this.logger.info(`${indent}  ${this.messages.t("export.databaseEmpty")}`);
 
                 // 即使数据库为空,也创建一个文件（带父页面链接）
                 const tableOptions: DatabaseToMarkdownOptions = {
-                    databaseName: safeTitle,
+                    databaseName: title,
                     parentPageTitle: parentPageTitle,
+                    parentFileName: parentFileName,
                 };
-                const emptyTableMarkdown = databaseToMarkdownTable([], tableOptions);
+                const emptyTableMarkdown = await this.databaseConverter.databaseToMarkdownTable([], tableOptions);
                 const filePath = join(currentDir, `${safeTitle}.md`);
-                await writeFile(filePath, emptyTableMarkdown, "utf-8");
+                await this.writeOutput(filePath, emptyTableMarkdown);
+                const additionalFiles = await this.writeDatabaseFormats(database, title, [], currentDir, safeTitle);
+
+                this.complete({
+                    id: databaseId,
+                    type: "database",
+                    title,
+                    lastEditedTime,
+                    lastEditedBy,
+                    basePath: this.toOutputPath(join(currentDir, safeTitle)),
+                    outputPath: this.toOutputPath(filePath),
+                    additionalFiles,
+                    attachments: [],
+                    children: [],
+                });
+                this.record({
+                    id: databaseId,
+                    type: "database",
+                    title,
+                    status: "exported",
+                    outputPath: this.toOutputPath(filePath),
+                    durationMs: Date.now() - startTime,
+                });
             }
         } catch (error) {
-            console.error(`${indent}❌ 导出数据库失败 (${databaseId}):`, error instanceof Error ? error.message : String(error));
+            this.logger.error(`${indent}${this.messages.t("export.databaseFailed", { id: databaseId, error: error instanceof Error ? error.message : String(error) })}`);
+            this.record({
+                id: databaseId,
+                type: "database",
+                title,
+                status: "failed",
+                durationMs: Date.now() - startTime,
+                error: toReportError(error),
+            });
+        }
+    }
+
+    /**
+     * 记录页面或数据库的导出结果,并发出对应的事件
+     * @param page - 页面报告
+     */
+    private record(page: PageReport): void {
+        this.report.record(page);
+
+        const { id, type, title = "", outputPath, durationMs } = page;
+        switch (page.status) {
+            case "exported":
+                if (outputPath) {
+                    this.logger.verbose?.(this.messages.t("export.pageWritten", { path: outputPath, duration: durationMs }), { id, path: outputPath, durationMs });
+                }
+                this.emit("pageWritten", { id, type, title, outputPath, durationMs });
+                break;
+            case "unchanged":
+            case "resumed":
+                this.emit("pageSkipped", { id, type, title, reason: page.status });
+                break;
+            default:
+                this.emitError({ id, type, title: page.title, error: page.error! });
+        }
+    }
+
+    /**
+     * 发出 pagesDiscovered 事件,只查找子页面而不导出的页面不计入
+     * @param parentId - 父页面 ID,根页面和工作区的顶层页面为空
+     * @param decisions - 发现的页面和数据库的过滤结果
+     */
+    private discover(parentId: string | undefined, decisions: FilterDecision[]): void {
+        const count = decisions.filter(decision => decision !== "traverse").length;
+        if (count > 0) {
+            this.emit("pagesDiscovered", { parentId, count });
+        }
+    }
+
+    /**
+     * 发出 error 事件;没有监听器时不发出,避免 EventEmitter 抛出异常
+     * @param event - 错误事件
+     */
+    private emitError(event: ExportErrorEvent): void {
+        if (this.listenerCount("error") > 0) {
+            this.emit("error", event);
+        }
+    }
+
+    /**
+     * 按规则筛选要导出详情的数据库条目
+     * @param rows - 有详情内容的条目
+     * @param rowNames - 条目 ID 到文件名的映射
+     * @param detailsDir - 详情目录
+     * @param depth - 条目的深度
+     * @returns 需要导出的条目
+     */
+    private filterRows(rows: ChildPageInfo[], rowNames: Map<string, string>, detailsDir: string, depth: number): ChildPageInfo[] {
+        return rows.filter(row => {
+            const name = rowNames.get(row.id)!;
+            if (this.pageFilter.decide(row, this.toOutputPath(join(detailsDir, name)), depth) === "export") {
+                return true;
+            }
+            this.logger.info(`${"  ".repeat(depth)}${this.messages.t("export.filtered", { name })}`);
+            this.emit("pageSkipped", { id: row.id, type: "page", title: row.title, reason: "filtered" });
+            return false;
+        });
+    }
+
+    /**
+     * 创建文件命名器,沿用清单中记录的路径
+     * @param manifest - 导出清单
+     * @param naming - 文件命名方式
+     */
+    private createFileNamer(manifest: ExportManifest, naming: NamingStrategy): FileNamer {
+        return new FileNamer(naming, id => {
+            // 断点续传时优先使用本次已分配的路径
+            const entry = manifest.get(id) ?? manifest.getPrevious(id);
+            return entry ? entryBasePath(entry) : undefined;
+        }, this.messages);
+    }
+
+    /**
+     * 为目录中的单个页面分配文件名
+     * @param dir - 页面所在目录
+     * @param item - 页面信息
+     */
+    private assignFileName(dir: string, item: ChildPageInfo): string {
+        return this.fileNamer.assignOne(this.toOutputPath(dir), item);
+    }
+
+    /**
+     * 为同一目录下的页面和数据库分配文件名,并移动标题修改后的旧文件
+     * @param dir - 子页面所在目录
+     * @param childPages - 子页面信息数组
+     * @returns ID 到文件名的映射
+     */
+    private async assignChildFileNames(dir: string, childPages: ChildPageInfo[]): Promise<Map<string, string>> {
+        const names = this.fileNamer.assign(this.toOutputPath(dir), childPages);
+        for (const child of childPages) {
+            await this.relocate(child, join(dir, names.get(child.id)!));
+        }
+        return names;
+    }
+
+    /**
+     * 页面或数据库的路径与上一次导出不同时(标题修改或移动),将旧文件和子目录移动到新路径
+     * @param item - 页面或数据库信息
+     * @param basePath - 新路径(不含扩展名)
+     */
+    private async relocate(item: ChildPageInfo, basePath: string): Promise<void> {
+        const previous = this.manifest.getPrevious(item.id);
+        const previousBasePath = previous ? entryBasePath(previous) : undefined;
+        if (!previousBasePath || previousBasePath === this.toOutputPath(basePath)) {
+            return;
+        }
+
+        const from = join(this.outputDir, previousBasePath);
+        const moves: [string, string][] = [[`${from}.md`, `${basePath}.md`]];
+        if (item.type === "database") {
+            moves.push([`${from}.csv`, `${basePath}.csv`]);
+            moves.push([`${from}.json`, `${basePath}.json`]);
+            moves.push([detailsDirName(from, this.messages), detailsDirName(basePath, this.messages)]);
+        } else {
+            moves.push([from, basePath]); // 子页面目录
+        }
+
+        let moved = false;
+        for (const [source, target] of moves) {
+            // 旧路径已不存在(例如随父目录一起移动)或新路径已被占用时跳过
+            if (!await this.exists(source) || await this.exists(target)) {
+                continue;
+            }
+            await mkdir(dirname(target), { recursive: true });
+            await rename(source, target);
+            this.touched.add(this.toOutputPath(source));
+            this.touched.add(this.toOutputPath(target));
+            moved = true;
+        }
+
+        if (moved) {
+            this.logger.info(this.messages.t("export.moved", { from: previousBasePath, to: this.toOutputPath(basePath) }));
+        }
+    }
+
+    /**
+     * 判断文件或目录是否存在
+     * @param path - 文件路径
+     */
+    private async exists(path: string): Promise<boolean> {
+        try {
+            await access(path);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * 写入输出文件并记录路径(用于 git 提交)
+     * @param filePath - 文件路径
+     * @param content - 文件内容
+     */
+    private async writeOutput(filePath: string, content: string): Promise<void> {
+        await writeFile(filePath, content, "utf-8");
+        this.touched.add(this.toOutputPath(filePath));
+    }
+
+    /**
+     * 将本次导出写入、移动和删除的文件提交到 git
+     * 按页面提交时,每个新增、修改或移动的页面单独提交(作者为 Notion 中的最后编辑者),
+     * 其余文件(删除的页面、重写链接的文件、清单等)最后一起提交
+     * @param committer - git 提交器
+     * @param perPage - 是否按页面提交
+     */
+    private async commitChanges(committer: GitCommitter, perPage: boolean): Promise<void> {
+        const previous = new Map(this.manifest.previousEntries().map(entry => [normalizeNotionId(entry.id), entry]));
+        const current = new Map(this.manifest.entries().map(entry => [normalizeNotionId(entry.id), entry]));
+        const changes = diffManifestEntries(Array.from(previous.values()), Array.from(current.values()));
+        const isTouched = (path: string) => path.split("/").some((_, i, parts) => this.touched.has(parts.slice(0, i + 1).join("/")));
+        const commits: string[] = [];
+
+        const remaining: ManifestChange[] = [];
+        for (const change of changes) {
+            const entry = current.get(normalizeNotionId(change.id));
+            if (!perPage || !entry || change.type === "removed") {
+                remaining.push(change);
+                continue;
+            }
+
+            const old = change.type === "moved" ? previous.get(normalizeNotionId(change.id)) : undefined;
+            const paths = [entry, old].flatMap(item => (item ? entryFiles(item) : [])).filter(isTouched);
+            const author = entry.lastEditedBy ? await this.notionClient.getUser(entry.lastEditedBy) : undefined;
+            const hash = paths.length > 0
+                ? await committer.commit({ message: formatPageCommitMessage(change, this.messages), paths, author })
+                : undefined;
+            if (hash) {
+                commits.push(hash);
+            } else {
+                remaining.push(change);
+            }
+        }
+
+        const hash = await committer.commit({ message: formatCommitMessage(remaining, this.messages), paths: Array.from(this.touched) });
+        if (hash) {
+            commits.push(hash);
+        }
+
+        this.logger.info(commits.length > 0
+            ? this.messages.t("export.committed", { count: commits.length, hash: commits[commits.length - 1].substring(0, 7) })
+            : this.messages.t("export.nothingToCommit"));
+    }
+
+    /**
+     * 记录已完成的页面或数据库(写入清单和断点日志)
+     * @param entry - 清单条目
+     */
+    private complete(entry: ManifestEntry): void {
+        this.manifest.set(entry);
+        this.checkpoint.record(entry);
+    }
+
+    /**
+     * 将数据库额外导出为 CSV 和 JSON 文件
+     * @param database - 数据库对象
+     * @param title - 数据库标题
+     * @param pages - 数据库页面数组
+     * @param currentDir - 当前输出目录
+     * @param safeTitle - 数据库清理后的标题(文件名)
+     * @returns 写入文件的相对路径
+     */
+    private async writeDatabaseFormats(
+        database: PageOrDatabase,
+        title: string,
+        pages: PageOrDatabase[],
+        currentDir: string,
+        safeTitle: string
+    ): Promise<string[]> {
+        const files: string[] = [];
+
+        if (this.databaseFormats.includes("csv")) {
+            const filePath = join(currentDir, `${safeTitle}.csv`);
+            await this.writeOutput(filePath, databaseToCsv(pages, this.databaseConverter));
+            files.push(this.toOutputPath(filePath));
+        }
+
+        if (this.databaseFormats.includes("json")) {
+            const filePath = join(currentDir, `${safeTitle}.json`);
+            await this.writeOutput(filePath, JSON.stringify(databaseToJson(database, title, pages), null, 2));
+            files.push(this.toOutputPath(filePath));
+        }
+
+        return files;
+    }
+
+    /**
+     * 判断页面是否可以沿用上一次的导出结果
+     * @param pageId - 页面 ID
+     * @param lastEditedTime - 页面当前的最后编辑时间
+     * @param filePath - 页面将要写入的文件路径
+     */
+    private async isPageUnchanged(pageId: string, lastEditedTime: string, filePath: string): Promise<boolean> {
+        if (!this.manifest.isUnchanged(pageId, lastEditedTime, this.toOutputPath(filePath))) {
+            return false;
+        }
+
+        // 上一次写入的文件被删除时需要重新导出
+        const previous = this.manifest.getPrevious(pageId);
+        if (previous?.outputPath) {
+            try {
+                await access(join(this.outputDir, previous.outputPath));
+            } catch {
+                return false;
+            }
         }
+        return true;
     }
 
     /**
-     * 清理文件名中的非法字符
-     * @param fileName - 原始文件名
-     * @returns 清理后的文件名
+     * 将文件路径转换为相对输出目录的路径(统一使用 / 分隔)
+     * @param filePath - 文件路径
      */
-    private sanitizeFileName(fileName: string): string {
-        return fileName
-            .replace(/[<>:"/\\|?*]/g, "_") // 替换非法字符
-            .replace(/\s+/g, " ")          // 合并多个空格
-            .trim()
-            .substring(0, 200);            // 限制长度
+    private toOutputPath(filePath: string): string {
+        return relative(this.outputDir, filePath).split(sep).join("/");
     }
 }
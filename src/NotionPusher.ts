@@ -0,0 +1,953 @@
+import { isFullPage } from "@notionhq/client";
+import type { BlockObjectResponse, PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+import { readdir, readFile, writeFile } from "fs/promises";
+import { basename, dirname, extname, join, posix, relative, sep } from "path";
+import { fetch } from "undici";
+import { parse } from "yaml";
+import NotionClient, { NotionClientOptions } from "./NotionClient.js";
+import ExportManifest, { entryBasePath } from "./ExportManifest.js";
+import { ReportError, toReportError } from "./ExportReport.js";
+import { hashFileContent } from "./FileDownloader.js";
+import { consoleLogger, Logger } from "./ExportEvents.js";
+import { extractNotionPageId, normalizeNotionId } from "./LinkRewriter.js";
+import { MarkdownBlock, markdownToBlocks, toBlockRequest } from "./MarkdownToNotion.js";
+import Messages, { defaultMessages } from "./Messages.js";
+
+export interface PushOptions {
+    sourceDir: string;          // Markdown 文件所在目录(通常为之前的导出目录)
+    parentPageId?: string;      // 目录中找不到父页面的新页面创建在该页面下
+    dryRun?: boolean;           // 只比较内容,不写入 Notion
+    uploadMedia?: boolean;      // 是否上传本地图片和文件(不上传时省略这些块)
+}
+
+/**
+ * 推送结果:预览模式下为将要执行的操作
+ */
+export type PushAction = "created" | "updated" | "unchanged" | "skipped" | "failed";
+
+export interface PushedPage {
+    file: string;           // 相对源目录的路径
+    title: string;
+    action: PushAction;
+    id?: string;            // 页面 ID(预览模式下新建的页面为空)
+    diff: string[];         // 内容变化,- 为删除的行,+ 为新增的行
+    uploads: string[];      // 上传的本地文件(相对源目录)
+    reason?: string;        // 跳过的原因
+    error?: ReportError;
+}
+
+export interface PushResult {
+    sourceDir: string;
+    dryRun: boolean;
+    counts: Record<PushAction, number>;
+    pages: PushedPage[];
+}
+
+interface PushContext {
+    sourceDir: string;
+    parentPageId?: string;
+    dryRun: boolean;
+    uploadMedia: boolean;
+    manifestEntries: Map<string, { id: string; title: string }>;   // 文件路径到清单条目
+    databaseFiles: Set<string>;                                     // 数据库表格文件
+    pageIds: Map<string, string | undefined>;                       // 不含扩展名的路径到页面 ID(预览时新建的页面为空)
+    linkTargets: Map<string, string>;                               // 不含扩展名的路径到页面或数据库 ID
+}
+
+// 富文本片段(请求和响应中的字段)
+interface RichTextLike {
+    type?: string;
+    plain_text?: string;
+    text?: { content: string; link?: { url: string } | null };
+    equation?: { expression: string };
+    annotations?: Record<string, unknown>;
+}
+
+interface LocalFile {
+    block: MarkdownBlock;
+    path: string;           // 绝对路径
+    hash: string;           // 文件内容的哈希
+}
+
+// 块到所引用文件内容的哈希(本地文件或页面中已有的 Notion 托管文件)
+type FileHashes = Map<MarkdownBlock, string>;
+
+// 比较结果中的一项:保留(" ")、删除("-")或新增("+"),before/after 为两侧的下标
+interface DiffOperation {
+    kind: " " | "-" | "+";
+    before: number;
+    after: number;
+}
+
+// 追加块的位置:页面开头或指定块之后,为空时追加到末尾
+type AppendPosition = { type: "start" } | { type: "after_block"; after_block: { id: string } };
+
+// 推送使用的 API 版本:追加块的 position 参数需要 2026-03-11 及以上版本(推送不查询数据库)
+const PUSH_API_VERSION = "2026-03-11";
+
+// 每次追加子块的最大数量
+const APPEND_BATCH_SIZE = 100;
+
+// 差异中每处修改前后保留的未修改行数
+const DIFF_CONTEXT = 2;
+
+// Markdown 可以表示的块类型,其他类型(分栏、同步块、页面链接、目录等)删除后无法通过推送还原
+const PUSHABLE_TYPES = new Set([
+    "paragraph", "heading_1", "heading_2", "heading_3", "bulleted_list_item", "numbered_list_item", "to_do", "toggle",
+    "quote", "callout", "code", "equation", "divider", "table", "table_row", "image", "file", "bookmark", "embed",
+]);
+
+// 引用文件的块类型
+const FILE_TYPES = new Set(["image", "video", "audio", "pdf", "file"]);
+
+const CONTENT_TYPES: Record<string, string> = {
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".gif": "image/gif",
+    ".webp": "image/webp",
+    ".svg": "image/svg+xml",
+    ".pdf": "application/pdf",
+    ".txt": "text/plain",
+    ".csv": "text/csv",
+    ".json": "application/json",
+    ".zip": "application/zip",
+    ".mp4": "video/mp4",
+    ".mp3": "audio/mpeg",
+    ".wav": "audio/wav",
+};
+
+/**
+ * Notion 推送器 - 将 Markdown 文件转换为 Notion 块,新建或更新对应的页面
+ * 页面 ID 来自 front matter 的 notion_id 或导出清单;没有 ID 的文件新建为页面,
+ * 并按导出时的目录结构(页面 A.md 的子页面位于 A/ 目录)确定父页面。
+ * 更新页面时逐块比较,只删除和插入有变化的块;要删除的块包含 Markdown 无法表示的内容时不修改页面
+ */
+export default class NotionPusher {
+    private notionClient: NotionClient;
+    private logger: Logger;
+    private messages: Messages;
+
+    /**
+     * @param apiKey - Notion API 密钥
+     * @param options - 请求限速、重试和日志选项
+     */
+    constructor(apiKey: string, options: NotionClientOptions = {}) {
+        this.logger = options.logger ?? consoleLogger;
+        this.messages = options.messages ?? defaultMessages;
+        this.notionClient = new NotionClient(apiKey, { ...options, logger: this.logger, notionVersion: PUSH_API_VERSION });
+    }
+
+    /**
+     * 推送目录中的所有 Markdown 文件
+     * 已有页面只修改有变化的块(子页面和子数据库保留),内容没有变化的页面不会修改
+     * @param options - 推送选项
+     * @returns 每个文件的推送结果
+     */
+    public async push(options: PushOptions): Promise<PushResult> {
+        const { sourceDir, parentPageId, dryRun = false, uploadMedia = true } = options;
+
+        this.logger.info(this.messages.t("push.start", { dir: sourceDir }));
+        if (dryRun) {
+            this.logger.info(this.messages.t("push.dryRun"));
+        }
+        this.logger.info("");
+
+        const context: PushContext = {
+            sourceDir,
+            parentPageId,
+            dryRun,
+            uploadMedia,
+            manifestEntries: new Map(),
+            databaseFiles: new Set(),
+            pageIds: new Map(),
+            linkTargets: new Map(),
+        };
+        for (const entry of await ExportManifest.readEntries(sourceDir)) {
+            const basePath = entryBasePath(entry);
+            if (basePath) {
+                context.linkTargets.set(basePath, entry.id);
+                if (entry.type === "page") {
+                    context.pageIds.set(basePath, entry.id);
+                }
+            }
+            if (entry.outputPath) {
+                context.manifestEntries.set(entry.outputPath, entry);
+                if (entry.type === "database") {
+                    context.databaseFiles.add(entry.outputPath);
+                }
+            }
+        }
+
+        const pages: PushedPage[] = [];
+        for (const file of await listMarkdownFiles(sourceDir)) {
+            pages.push(await this.pushFile(file, context));
+        }
+
+        const counts: Record<PushAction, number> = { created: 0, updated: 0, unchanged: 0, skipped: 0, failed: 0 };
+        for (const page of pages) {
+            counts[page.action]++;
+        }
+
+        this.logger.info("");
+        this.logger.info(this.messages.t(dryRun ? "push.previewFinished" : "push.finished", { ...counts }));
+
+        return { sourceDir, dryRun, counts, pages };
+    }
+
+    /**
+     * 推送单个文件
+     * @param file - 相对源目录的路径
+     * @param context - 推送上下文
+     */
+    private async pushFile(file: string, context: PushContext): Promise<PushedPage> {
+        const basePath = file.replace(/\.md$/i, "");
+        const entry = context.manifestEntries.get(file);
+        const result: PushedPage = { file, title: entry?.title ?? basename(basePath), action: "skipped", diff: [], uploads: [] };
+
+        if (context.databaseFiles.has(file)) {
+            result.reason = this.messages.t("push.databaseTable");
+            this.logger.info(this.messages.t("push.databaseTableSkipped", { file }));
+            return result;
+        }
+
+        const filePath = join(context.sourceDir, ...file.split("/"));
+        try {
+            const source = await readFile(filePath, "utf-8");
+            const { data, body } = splitFrontMatter(source);
+            const id = typeof data.notion_id === "string" && data.notion_id ? data.notion_id : entry?.id;
+            if (typeof data.title === "string" && data.title) {
+                result.title = data.title;
+            }
+
+            const page = id ? await this.getExistingPage(id) : undefined;
+            // 已有页面只按 front matter 的 title 改名,清单和文件名中的标题不一定是页面当前的标题
+            if (page && !(typeof data.title === "string" && data.title)) {
+                result.title = this.notionClient.getPageTitle(page);
+            }
+
+            // 导出时为没有内容的页面生成的属性列表不作为正文推送
+            let markdown = stripDatabaseLinks(body, this.messages.variants("content.relatedDatabases"));
+            if (page && isGeneratedContent(markdown, page, this.messages.variants("content.titleOnly"))) {
+                markdown = "";
+            }
+            const blocks = markdownToBlocks(markdown, {
+                resolveLink: href => this.resolveLink(href, file, context),
+            });
+            const localFiles = await this.collectLocalFiles(blocks, dirname(filePath), context.uploadMedia);
+            result.uploads = localFiles.map(local => posix.normalize(posix.join(posix.dirname(file), local.block.localFile!)));
+
+            if (id && page) {
+                result.id = id;
+                context.pageIds.set(basePath, id);
+                await this.updatePage(page, result, blocks, localFiles, context);
+            } else {
+                await this.createPage(basePath, filePath, source, result, blocks, localFiles, context);
+            }
+        } catch (error) {
+            result.action = "failed";
+            result.error = toReportError(error);
+            this.logger.error(this.messages.t("push.failed", { file, error: result.error.message }));
+        }
+        return result;
+    }
+
+    /**
+     * 获取要更新的页面
+     * @param id - 页面 ID
+     */
+    private async getExistingPage(id: string): Promise<PageObjectResponse> {
+        const page = await this.notionClient.getPage(id);
+        if (!isFullPage(page) || page.in_trash) {
+            throw new Error(this.messages.t("push.pageMissing", { id }));
+        }
+        return page;
+    }
+
+    /**
+     * 比较并更新已有页面:只删除和插入有变化的块,子页面和子数据库保留
+     */
+    private async updatePage(
+        page: PageObjectResponse,
+        result: PushedPage,
+        blocks: MarkdownBlock[],
+        localFiles: LocalFile[],
+        context: PushContext
+    ): Promise<void> {
+        const id = page.id;
+        const currentTitle = this.notionClient.getPageTitle(page);
+        const existing = (await this.notionClient.listBlocks(id)).filter(block => !isRetained(block));
+        // 文件按内容比较:替换了内容的本地文件重新上传,未修改的附件沿用页面中已有的文件
+        const files: FileHashes = new Map(localFiles.map(local => [local.block, local.hash]));
+        const current = await this.readBlocks(existing, files);
+        const before = [`title: ${currentTitle}`, ...describeBlocks(current, files)];
+        const after = [`title: ${result.title}`, ...describeBlocks(blocks, files)];
+        result.diff = diffLines(before, after);
+
+        if (result.diff.length === 0) {
+            result.action = "unchanged";
+            result.uploads = [];
+            this.logger.info(this.messages.t("push.unchanged", { title: result.title }));
+            return;
+        }
+
+        // 逐块比较,被删除或替换的块中有推送无法还原的内容时不修改页面
+        const operations = diffSequence(
+            current.map(block => describeBlocks([block], files).join("\n")),
+            blocks.map(block => describeBlocks([block], files).join("\n"))
+        );
+        const unsupported = findUnsupportedContent(operations.filter(operation => operation.kind === "-").map(operation => current[operation.before]));
+        if (unsupported.length > 0) {
+            const types = unsupported.join(", ");
+            result.action = "skipped";
+            result.reason = this.messages.t("push.unsupported", { types });
+            result.diff = [];
+            result.uploads = [];
+            this.logger.warn(this.messages.t("push.unsupportedSkipped", { title: result.title, types }));
+            return;
+        }
+
+        // 只上传新增的块(及其子块)引用的本地文件
+        const added = new Set(flattenBlocks(operations.filter(operation => operation.kind === "+").map(operation => blocks[operation.after])));
+        result.uploads = result.uploads.filter((_, index) => added.has(localFiles[index].block));
+        result.action = "updated";
+        if (context.dryRun) {
+            return;
+        }
+
+        this.logger.info(this.messages.t("push.updating", { title: result.title }));
+        await this.uploadFiles(localFiles.filter(local => added.has(local.block)), context.sourceDir);
+        if (result.title !== currentTitle) {
+            const titleProperty = Object.keys(page.properties).find(name => page.properties[name].type === "title") ?? "title";
+            await this.notionClient.getClient().pages.update({
+                page_id: id,
+                properties: { [titleProperty]: { title: [{ type: "text", text: { content: result.title } }] } },
+            });
+        }
+        await this.applyOperations(id, existing, blocks, operations);
+    }
+
+    /**
+     * 新建页面,并将页面 ID 写入文件的 front matter,之后的推送会更新该页面
+     */
+    private async createPage(
+        basePath: string,
+        filePath: string,
+        source: string,
+        result: PushedPage,
+        blocks: MarkdownBlock[],
+        localFiles: LocalFile[],
+        context: PushContext
+    ): Promise<void> {
+        const parent = this.findParent(basePath, context);
+        if (parent === "database") {
+            result.reason = this.messages.t("push.newRow");
+            this.logger.info(this.messages.t("push.newRowSkipped", { file: result.file }));
+            return;
+        }
+        if (!parent.found && !context.parentPageId) {
+            throw new Error(this.messages.t("push.parentMissing"));
+        }
+        const parentId = parent.found ? parent.id : context.parentPageId;
+
+        result.action = "created";
+        const files: FileHashes = new Map(localFiles.map(local => [local.block, local.hash]));
+        result.diff = [`title: ${result.title}`, ...describeBlocks(blocks, files)].map(line => `+ ${line}`);
+        if (context.dryRun) {
+            context.pageIds.set(basePath, undefined);
+            return;
+        }
+
+        this.logger.info(this.messages.t("push.creating", { title: result.title }));
+        await this.uploadFiles(localFiles, context.sourceDir);
+        const page = await this.notionClient.getClient().pages.create({
+            parent: { type: "page_id", page_id: parentId! },
+            properties: { title: { title: [{ type: "text", text: { content: result.title } }] } },
+        });
+        await this.appendBlocks(page.id, blocks);
+        await writeFile(filePath, setFrontMatterId(source, page.id), "utf-8");
+
+        result.id = page.id;
+        context.pageIds.set(basePath, page.id);
+        context.linkTargets.set(basePath, page.id);
+    }
+
+    /**
+     * 按目录结构查找父页面:a/b/c.md 依次查找 a/b.md 和 a.md 对应的页面
+     * 详情目录按所有内置语言的名称识别,以便推送以其他语言导出的目录
+     * @returns 父页面 ID(预览时可能为尚未创建的页面),位于数据库详情目录中时返回 database
+     */
+    private findParent(basePath: string, context: PushContext): { found: boolean; id?: string } | "database" {
+        const detailsSuffixes = this.messages.variants("content.detailsDirSuffix");
+        let dir = posix.dirname(basePath);
+        while (dir !== ".") {
+            if (context.pageIds.has(dir)) {
+                return { found: true, id: context.pageIds.get(dir) };
+            }
+            if (detailsSuffixes.some(suffix => dir.endsWith(suffix))) {
+                return "database";
+            }
+            dir = posix.dirname(dir);
+        }
+        return { found: false };
+    }
+
+    /**
+     * 将指向其他 Markdown 文件的相对链接转换为对应页面的 Notion 链接
+     */
+    private resolveLink(href: string, file: string, context: PushContext): string | undefined {
+        const path = href.split("#")[0];
+        if (!path) {
+            return undefined;
+        }
+        let decoded = path;
+        try {
+            decoded = decodeURIComponent(path);
+        } catch {
+            // 保留无法解码的路径
+        }
+        const target = posix.normalize(posix.join(posix.dirname(file), decoded)).replace(/\.md$/i, "");
+        const id = context.linkTargets.get(target);
+        return id ? `https://www.notion.so/${normalizeNotionId(id)}` : undefined;
+    }
+
+    /**
+     * 收集需要上传的本地文件,不上传或文件不存在时移除对应的块
+     * @param blocks - Markdown 块(会被修改)
+     * @param fileDir - Markdown 文件所在目录
+     * @param uploadMedia - 是否上传本地文件
+     */
+    private async collectLocalFiles(blocks: MarkdownBlock[], fileDir: string, uploadMedia: boolean): Promise<LocalFile[]> {
+        const localFiles: LocalFile[] = [];
+        for (let index = blocks.length - 1; index >= 0; index--) {
+            const block = blocks[index];
+            localFiles.unshift(...await this.collectLocalFiles(block.children, fileDir, uploadMedia));
+            if (!block.localFile) {
+                continue;
+            }
+
+            const path = join(fileDir, ...block.localFile.split("/"));
+            if (!uploadMedia) {
+                blocks.splice(index, 1);
+                continue;
+            }
+            try {
+                localFiles.unshift({ block, path, hash: hashFileContent(await readFile(path)) });
+            } catch {
+                this.logger.warn(`  ${this.messages.t("push.localFileMissing", { file: block.localFile })}`);
+                blocks.splice(index, 1);
+            }
+        }
+        return localFiles;
+    }
+
+    /**
+     * 上传本地文件并将对应的块指向上传的文件
+     */
+    private async uploadFiles(localFiles: LocalFile[], sourceDir: string): Promise<void> {
+        const client = this.notionClient.getClient();
+        for (const { block, path } of localFiles) {
+            const filename = basename(path);
+            const contentType = CONTENT_TYPES[extname(path).toLowerCase()] ?? "application/octet-stream";
+            const upload = await client.fileUploads.create({ mode: "single_part", filename, content_type: contentType });
+            await client.fileUploads.send({
+                file_upload_id: upload.id,
+                file: { filename, data: new Blob([new Uint8Array(await readFile(path))], { type: contentType }) },
+            });
+            block.content = { ...block.content, type: "file_upload", file_upload: { id: upload.id } };
+            this.logger.info(`  ${this.messages.t("push.uploading", { file: relative(sourceDir, path).split(sep).join("/") })}`);
+        }
+    }
+
+    /**
+     * 按逐块比较的结果修改页面:新增的块插入到前一个保留或新增的块之后,然后删除移除的块,未修改的块保持不变
+     * @param pageId - 页面 ID
+     * @param existing - 页面原有的内容块(不含子页面和子数据库)
+     * @param blocks - 新的块
+     * @param operations - existing 与 blocks 的比较结果
+     */
+    private async applyOperations(
+        pageId: string,
+        existing: BlockObjectResponse[],
+        blocks: MarkdownBlock[],
+        operations: DiffOperation[]
+    ): Promise<void> {
+        // 页面原本没有内容块时追加到末尾(子页面之后),否则新增在开头的块插入到页面开头
+        let position: AppendPosition | undefined = existing.length > 0 ? { type: "start" } : undefined;
+        let pending: MarkdownBlock[] = [];
+        const flush = async () => {
+            const last = await this.appendBlocks(pageId, pending, position);
+            if (last) {
+                position = afterBlock(last);
+            }
+            pending = [];
+        };
+
+        for (const operation of operations) {
+            if (operation.kind === "+") {
+                pending.push(blocks[operation.after]);
+            } else if (operation.kind === " ") {
+                await flush();
+                position = afterBlock(existing[operation.before].id);
+            }
+        }
+        await flush();
+
+        const client = this.notionClient.getClient();
+        for (const operation of operations) {
+            if (operation.kind === "-") {
+                await client.blocks.delete({ block_id: existing[operation.before].id });
+            }
+        }
+    }
+
+    /**
+     * 逐层追加子块
+     * @param parentId - 页面或块 ID
+     * @param blocks - 要追加的块
+     * @param position - 插入的位置,为空时追加到末尾
+     * @returns 最后一个追加的块的 ID
+     */
+    private async appendBlocks(parentId: string, blocks: MarkdownBlock[], position?: AppendPosition): Promise<string | undefined> {
+        const client = this.notionClient.getClient();
+        let current = position;
+        let last: string | undefined;
+        for (let start = 0; start < blocks.length; start += APPEND_BATCH_SIZE) {
+            const batch = blocks.slice(start, start + APPEND_BATCH_SIZE);
+            const response = await client.blocks.children.append({
+                block_id: parentId,
+                children: batch.map(toBlockRequest),
+                ...(current ? { position: current } : {}),
+            });
+
+            for (const [index, created] of response.results.entries()) {
+                const block = batch[index];
+                if (block && block.type !== "table" && block.children.length > 0) {
+                    await this.appendBlocks(created.id, block.children);
+                }
+            }
+            if (response.results.length > 0) {
+                last = response.results[response.results.length - 1].id;
+                current = current ? afterBlock(last) : undefined;
+            }
+        }
+        return last;
+    }
+
+    /**
+     * 读取已有的块及其子块,用于比较
+     * 嵌套的子页面和子数据库同样读取,删除所在的块时按无法还原的内容处理
+     * @param blocks - 页面或块的子块
+     * @param files - 记录 Notion 托管文件的内容哈希
+     * @returns 与 blocks 一一对应的块
+     */
+    private async readBlocks(blocks: BlockObjectResponse[], files: FileHashes): Promise<MarkdownBlock[]> {
+        const result: MarkdownBlock[] = [];
+        for (const block of blocks) {
+            const children = block.has_children ? await this.readBlocks(await this.notionClient.listBlocks(block.id), files) : [];
+            const content = (block as unknown as Record<string, Record<string, unknown>>)[block.type] ?? {};
+            const read: MarkdownBlock = { type: block.type, content, children };
+            if (FILE_TYPES.has(block.type) && content.type === "file") {
+                files.set(read, await this.hashHostedFile(String((content.file as { url?: string } | undefined)?.url ?? "")));
+            }
+            result.push(read);
+        }
+        return result;
+    }
+
+    /**
+     * 下载页面中的 Notion 托管文件并计算内容哈希
+     * @param url - 文件的临时地址
+     * @returns 内容哈希,下载失败时返回不含签名参数的地址(该块按已修改处理)
+     */
+    private async hashHostedFile(url: string): Promise<string> {
+        try {
+            const response = await fetch(url);
+            if (response.ok) {
+                return hashFileContent(new Uint8Array(await response.arrayBuffer()));
+            }
+        } catch {
+            // 下载失败时按已修改处理
+        }
+        return url.split("?")[0];
+    }
+}
+
+/**
+ * 格式化推送结果(预览模式下显示每个页面的内容差异)
+ * @param result - 推送结果
+ * @param messages - 输出使用的文字
+ * @returns 文本
+ */
+export function formatPushResult(result: PushResult, messages: Messages = defaultMessages): string {
+    const lines: string[] = [];
+    const labels: Record<PushAction, string> = {
+        created: messages.t(result.dryRun ? "push.willCreate" : "push.created"),
+        updated: messages.t(result.dryRun ? "push.willUpdate" : "push.updated"),
+        unchanged: messages.t("push.unchangedLabel"),
+        skipped: messages.t("push.skippedLabel"),
+        failed: messages.t("push.failedLabel"),
+    };
+
+    for (const page of result.pages) {
+        if (page.action === "unchanged") {
+            continue;
+        }
+        let line = `${labels[page.action]}: ${page.file}`;
+        if (page.reason) {
+            line += ` (${page.reason})`;
+        }
+        if (page.error) {
+            line += ` - ${page.error.message}`;
+        }
+        lines.push(line);
+        for (const upload of page.uploads) {
+            if (page.action === "created" || page.action === "updated") {
+                lines.push(`    📤 ${upload}`);
+            }
+        }
+        for (const diffLine of page.diff) {
+            lines.push(`    ${diffLine}`);
+        }
+    }
+
+    if (lines.length > 0) {
+        lines.push("");
+    }
+    lines.push(messages.t("push.summary", { ...result.counts }));
+    return lines.join("\n");
+}
+
+/**
+ * 列出目录中的所有 Markdown 文件(跳过隐藏目录),按层级排序,父页面先于子页面
+ * @param dir - 目录
+ * @returns 使用 / 分隔的相对路径
+ */
+async function listMarkdownFiles(dir: string): Promise<string[]> {
+    const files: string[] = [];
+    const visit = async (relativeDir: string) => {
+        const entries = await readdir(join(dir, relativeDir), { withFileTypes: true });
+        for (const entry of entries) {
+            if (entry.name.startsWith(".")) {
+                continue;
+            }
+            const path = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                await visit(path);
+            } else if (entry.isFile() && extname(entry.name).toLowerCase() === ".md") {
+                files.push(path);
+            }
+        }
+    };
+    await visit("");
+
+    const depth = (path: string) => path.split("/").length;
+    return files.sort((a, b) => depth(a) - depth(b) || a.localeCompare(b));
+}
+
+/**
+ * 拆分 front matter 和正文
+ */
+function splitFrontMatter(source: string): { data: Record<string, unknown>; body: string } {
+    const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+    if (!match) {
+        return { data: {}, body: source };
+    }
+    const data: unknown = parse(match[1]);
+    const isRecord = typeof data === "object" && data !== null && !Array.isArray(data);
+    return { data: isRecord ? data as Record<string, unknown> : {}, body: source.substring(match[0].length) };
+}
+
+/**
+ * 在 front matter 中记录页面 ID,没有 front matter 时新建
+ */
+function setFrontMatterId(source: string, id: string): string {
+    const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+    if (!match) {
+        return `---\nnotion_id: ${id}\n---\n\n${source}`;
+    }
+    if (/^notion_id:.*$/m.test(match[1])) {
+        return match[0].replace(/^notion_id:.*$/m, `notion_id: ${id}`) + source.substring(match[0].length);
+    }
+    return source.replace(/^---\r?\n/, `---\nnotion_id: ${id}\n`);
+}
+
+/**
+ * 去掉导出时在页面末尾添加的关联数据库链接
+ * @param headings - 关联数据库标题的所有写法(不同语言)
+ */
+function stripDatabaseLinks(body: string, headings: string[]): string {
+    const heading = headings.map(text => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|");
+    return body.replace(new RegExp(`\\n*---\\n\\n## (?:${heading})\\n\\n(?:- \\[.*\\]\\(.*\\)\\n?)*\\s*$`), "\n");
+}
+
+/**
+ * 判断正文是否只有导出时生成的内容:没有内容的页面写为属性列表("**属性**: 值")或仅含标题的提示
+ * @param body - 正文(不含 front matter 和关联数据库链接)
+ * @param page - 已有页面
+ * @param placeholders - 仅含标题提示的所有写法(不同语言)
+ */
+function isGeneratedContent(body: string, page: PageObjectResponse, placeholders: string[]): boolean {
+    const lines = body.split("\n").map(line => line.trim()).filter(Boolean);
+    if (lines.length === 0) {
+        return false;
+    }
+    if (lines.length === 1 && placeholders.includes(lines[0])) {
+        return true;
+    }
+
+    const names = new Set(Object.keys(page.properties).filter(name => page.properties[name].type !== "title"));
+    return lines.every(line => {
+        const match = line.match(/^\*\*(.+?)\*\*:/);
+        return match !== null && names.has(match[1]);
+    });
+}
+
+/**
+ * 查找块中推送无法还原的内容:Markdown 无法表示的块类型和富文本中的提及
+ * @param blocks - 已有的块(含子块)
+ * @returns 块类型,提及记为 mention
+ */
+function findUnsupportedContent(blocks: MarkdownBlock[], found: Set<string> = new Set()): string[] {
+    for (const block of blocks) {
+        if (!PUSHABLE_TYPES.has(block.type)) {
+            found.add(block.type);
+        }
+        const texts = [block.content.rich_text, block.content.caption, ...((block.content.cells as unknown[] | undefined) ?? [])];
+        if (texts.some(text => Array.isArray(text) && (text as RichTextLike[]).some(item => item.type === "mention"))) {
+            found.add("mention");
+        }
+        findUnsupportedContent(block.children, found);
+    }
+    return Array.from(found);
+}
+
+/**
+ * 推送时保留的块:子页面和子数据库
+ */
+function isRetained(block: BlockObjectResponse): boolean {
+    return block.type === "child_page" || block.type === "child_database";
+}
+
+/**
+ * 插入到指定块之后的位置
+ */
+function afterBlock(id: string): AppendPosition {
+    return { type: "after_block", after_block: { id } };
+}
+
+/**
+ * 展开块及其所有子块
+ */
+function flattenBlocks(blocks: MarkdownBlock[]): MarkdownBlock[] {
+    return blocks.flatMap(block => [block, ...flattenBlocks(block.children)]);
+}
+
+/**
+ * 将块转换为用于比较的文本行,子块缩进
+ * @param files - 块引用的文件的内容哈希
+ */
+function describeBlocks(blocks: MarkdownBlock[], files: FileHashes, depth: number = 0): string[] {
+    const lines: string[] = [];
+    const indent = "  ".repeat(depth);
+    for (const block of blocks) {
+        lines.push(...describeBlock(block, files).map(line => indent + line));
+        if (block.type !== "table") {
+            lines.push(...describeBlocks(block.children, files, depth + 1));
+        }
+    }
+    return lines;
+}
+
+/**
+ * 将单个块转换为文本行,文件块带上文件内容的哈希或外部地址
+ */
+function describeBlock(block: MarkdownBlock, files: FileHashes): string[] {
+    const { content } = block;
+    const text = richTextToString(content.rich_text);
+    const withPrefix = (prefix: string) => {
+        const [first, ...rest] = text.split("\n");
+        return [`${prefix}${first}`, ...rest.map(line => `  ${line}`)];
+    };
+
+    switch (block.type) {
+        case "paragraph":
+            return text.split("\n");
+        case "heading_1":
+        case "heading_2":
+        case "heading_3":
+            return withPrefix(`${"#".repeat(Number(block.type.slice(-1)))} `);
+        case "bulleted_list_item":
+            return withPrefix("- ");
+        case "numbered_list_item":
+            return withPrefix("1. ");
+        case "to_do":
+            return withPrefix(content.checked ? "- [x] " : "- [ ] ");
+        case "toggle":
+            return withPrefix("▸ ");
+        case "quote":
+            return withPrefix("> ");
+        case "callout": {
+            const icon = content.icon as { type?: string; emoji?: string } | null | undefined;
+            return withPrefix(icon?.type === "emoji" ? `> ${icon.emoji} ` : "> ");
+        }
+        case "code":
+            return ["```" + String(content.language ?? ""), ...text.split("\n"), "```"];
+        case "equation":
+            return [`$$ ${String(content.expression ?? "").trim()} $$`];
+        case "divider":
+            return ["---"];
+        case "table":
+            return block.children.map(row => {
+                const cells = (row.content.cells as unknown[] | undefined) ?? [];
+                return `| ${cells.map(richTextToString).join(" | ")} |`;
+            });
+        case "file":
+        case "image":
+        case "video":
+        case "audio":
+        case "pdf": {
+            const external = content.type === "external" ? (content.external as { url?: string } | undefined)?.url : undefined;
+            const source = files.get(block) ?? external;
+            const label = block.type === "file" ? String(content.name ?? "") : richTextToString(content.caption);
+            return [`[${block.type}${source ? ` ${source}` : ""}] ${label}`.trimEnd()];
+        }
+        case "bookmark":
+        case "embed":
+            return [`[${block.type}] ${String(content.url ?? "")}`];
+        default:
+            return [`[${block.type}]`];
+    }
+}
+
+/**
+ * 将富文本(请求或响应)转换为带格式标记的文本,相同格式的相邻片段合并后再比较
+ */
+function richTextToString(value: unknown): string {
+    if (!Array.isArray(value)) {
+        return "";
+    }
+
+    const segments: { text: string; key: string; annotations: Record<string, unknown>; link?: string }[] = [];
+    for (const item of value as RichTextLike[]) {
+        const annotations: Record<string, unknown> = item.annotations ?? {};
+        if (item.type === "equation") {
+            segments.push({ text: `$${item.equation?.expression ?? ""}$`, key: "equation", annotations: {} });
+            continue;
+        }
+        const text = item.type === "text" ? item.text?.content ?? "" : item.plain_text ?? "";
+        const url = item.type === "text" ? item.text?.link?.url : undefined;
+        const link = url ? extractNotionPageId(url) ?? url : undefined;
+        const key = JSON.stringify([annotations.bold, annotations.italic, annotations.strikethrough, annotations.underline, annotations.code, link]);
+        const previous = segments[segments.length - 1];
+        if (previous && previous.key === key) {
+            previous.text += text;
+        } else {
+            segments.push({ text, key, annotations, link });
+        }
+    }
+
+    return segments.map(({ text, annotations, link }) => {
+        let result = text;
+        if (annotations.code) {
+            result = `\`${result}\``;
+        }
+        if (annotations.bold) {
+            result = `**${result}**`;
+        }
+        if (annotations.italic) {
+            result = `*${result}*`;
+        }
+        if (annotations.strikethrough) {
+            result = `~~${result}~~`;
+        }
+        if (annotations.underline) {
+            result = `<u>${result}</u>`;
+        }
+        return link ? `[${result}](${link})` : result;
+    }).join("");
+}
+
+/**
+ * 逐行比较文本,返回带上下文的差异(- 删除,+ 新增),没有差异时返回空数组
+ */
+function diffLines(before: string[], after: string[]): string[] {
+    const operations = diffSequence(before, after);
+    if (operations.every(operation => operation.kind === " ")) {
+        return [];
+    }
+
+    // 只保留修改及其前后的几行
+    const lines: string[] = [];
+    let lastShown = -1;
+    operations.forEach((operation, index) => {
+        const nearChange = operations
+            .slice(Math.max(0, index - DIFF_CONTEXT), index + DIFF_CONTEXT + 1)
+            .some(candidate => candidate.kind !== " ");
+        if (!nearChange) {
+            return;
+        }
+        if (lastShown !== -1 && index > lastShown + 1) {
+            lines.push("  …");
+        }
+        const line = operation.kind === "+" ? after[operation.after] : before[operation.before];
+        lines.push(`${operation.kind} ${line}`);
+        lastShown = index;
+    });
+    return lines;
+}
+
+/**
+ * 按最长公共子序列比较两个序列
+ * @param before - 原序列
+ * @param after - 新序列
+ * @returns 按新顺序排列的保留、删除和新增操作
+ */
+function diffSequence(before: string[], after: string[]): DiffOperation[] {
+    // 去掉相同的开头和结尾,减少需要比较的行数
+    let prefix = 0;
+    while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < before.length - prefix && suffix < after.length - prefix
+        && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) {
+        suffix++;
+    }
+    // 最长公共子序列
+    const a = before.slice(prefix, before.length - suffix);
+    const b = after.slice(prefix, after.length - suffix);
+    const table = new Int32Array((a.length + 1) * (b.length + 1));
+    const width = b.length + 1;
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            table[i * width + j] = a[i] === b[j]
+                ? table[(i + 1) * width + j + 1] + 1
+                : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+        }
+    }
+
+    const operations: DiffOperation[] = [];
+    for (let index = 0; index < prefix; index++) {
+        operations.push({ kind: " ", before: index, after: index });
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            operations.push({ kind: " ", before: prefix + i, after: prefix + j });
+            i++;
+            j++;
+        } else if (i < a.length && (j === b.length || table[(i + 1) * width + j] >= table[i * width + j + 1])) {
+            operations.push({ kind: "-", before: prefix + i, after: prefix + j });
+            i++;
+        } else {
+            operations.push({ kind: "+", before: prefix + i, after: prefix + j });
+            j++;
+        }
+    }
+    for (let index = suffix; index > 0; index--) {
+        operations.push({ kind: " ", before: before.length - index, after: after.length - index });
+    }
+    return operations;
+}
@@ -1,6 +1,16 @@
 import { NotionToMarkdown as N2M } from "notion-to-md";
-import { Client } from "@notionhq/client";
+import { Client, isFullBlock, iteratePaginatedAPI } from "@notionhq/client";
 import type { MdBlock } from "notion-to-md/build/types";
+import type {
+    BlockObjectResponse,
+    ListBlockChildrenParameters,
+    ListBlockChildrenResponse,
+    ParagraphBlockObjectResponse,
+    RichTextItemResponse,
+} from "@notionhq/client/build/src/api-endpoints";
+import { OutputFlavor, toEmbed } from "./ObsidianMarkdown.js";
+import { BlockTransformer, resolveTransformer, TransformerContext, TransformerSetting } from "./BlockTransformers.js";
+import Messages, { defaultMessages } from "./Messages.js";
 
 export interface MediaLink {
     type: "image" | "file";
@@ -10,12 +20,60 @@ export interface MediaLink {
 
 /**
  * Notion 块转 Markdown 转换器
+ * 可以按块类型注册转换器替换默认的转换方式,后注册的转换器优先
  */
 export default class NotionToMarkdown {
+    private notion: Client;
     private n2m: N2M;
+    private defaultConverter: N2M; // 不含自定义转换器,用于默认转换和富文本转换
+    private transformedTypes: Set<string> = new Set();
+    private transformedParents: Set<string> = new Set();    // 由转换器转换、子块需要缓存的块 ID
+    private childListings: Map<string, Promise<ListBlockChildrenResponse>> = new Map(); // 块 ID 和分页游标到子块列表
+    private context: TransformerContext = {
+        richText: richText => this.richTextToMarkdown(richText),
+        children: block => this.childrenToMarkdown(block),
+        childBlocks: block => this.listChildBlocks(block),
+    };
 
-    constructor(notion: Client) {
-        this.n2m = new N2M({ notionClient: notion });
+    /**
+     * @param notion - Notion Client
+     * @param flavor - 输出风格(obsidian 时标注转为 Obsidian 标注)
+     * @param transformers - 内置转换器名称或自定义转换器
+     * @param messages - 错误信息使用的消息目录
+     */
+    constructor(
+        notion: Client,
+        flavor: OutputFlavor = "markdown",
+        transformers: TransformerSetting[] = [],
+        messages: Messages = defaultMessages
+    ) {
+        this.notion = notion;
+        // notion-to-md 只通过 blocks.children.list 读取子块,经过缓存后转换器和默认转换可以复用已读取的子块
+        this.n2m = new N2M({ notionClient: this.cachingClient(true) });
+        this.defaultConverter = new N2M({ notionClient: this.cachingClient(false) });
+
+        const settings: TransformerSetting[] = flavor === "obsidian" ? ["callout-obsidian", ...transformers] : transformers;
+        for (const setting of settings) {
+            const { blockType, transform } = resolveTransformer(setting, messages);
+            this.registerTransformer(blockType, transform);
+        }
+    }
+
+    /**
+     * 注册块转换器,替换该类型块的转换方式;转换器返回 false 时使用默认转换
+     * @param blockType - 块类型,如 callout、toggle
+     * @param transform - 转换器
+     */
+    public registerTransformer(blockType: string, transform: BlockTransformer): void {
+        this.transformedTypes.add(blockType);
+        this.n2m.setCustomTransformer(blockType, async block => {
+            try {
+                const markdown = await transform(block as BlockObjectResponse, this.context);
+                return markdown === false ? await this.defaultBlockToMarkdown(block as BlockObjectResponse) : markdown;
+            } finally {
+                this.releaseChildren(block as BlockObjectResponse);
+            }
+        });
     }
 
     /**
@@ -28,7 +86,7 @@ export default class NotionToMarkdown {
         const mdBlocks = await this.n2m.pageToMarkdown(pageId);
 
         // 过滤掉子页面和子数据库块
-        const filteredBlocks = this.filterOutChildPages(mdBlocks);
+        const filteredBlocks = this.outputTransformedToggles(this.filterOutChildPages(mdBlocks));
 
         // 转换为 Markdown 字符串
         const markdownResult = this.n2m.toMarkdownString(filteredBlocks);
@@ -113,6 +171,146 @@ export default class NotionToMarkdown {
         return result;
     }
 
+    /**
+     * 将 Markdown 中的图片和文件链接替换为 Obsidian 嵌入
+     * @param markdown - 原始 Markdown 内容
+     * @param urlMapping - URL 到附件路径(相对输出目录)的映射
+     * @returns 替换后的 Markdown 内容
+     */
+    public replaceMediaEmbeds(markdown: string, urlMapping: Map<string, string>): string {
+        let result = markdown;
+
+        for (const [originalUrl, outputPath] of urlMapping.entries()) {
+            const escapedUrl = originalUrl.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+            result = result.replace(new RegExp(`!?\\[[^\\]]*\\]\\(${escapedUrl}\\)`, "g"), () => toEmbed(outputPath));
+        }
+
+        return result;
+    }
+
+    /**
+     * 将富文本转换为 Markdown
+     * @param richText - 富文本
+     */
+    private async richTextToMarkdown(richText: RichTextItemResponse[]): Promise<string> {
+        // 借用段落块的转换逻辑处理富文本格式
+        const paragraph = {
+            type: "paragraph",
+            paragraph: { rich_text: richText, color: "default" },
+            has_children: false,
+        } as unknown as ParagraphBlockObjectResponse;
+        return this.defaultConverter.blockToMarkdown(paragraph);
+    }
+
+    /**
+     * 转换块的所有子块(使用已注册的转换器)
+     * @param block - 父块
+     */
+    private async childrenToMarkdown(block: BlockObjectResponse): Promise<string> {
+        if (!block.has_children) {
+            return "";
+        }
+        const mdBlocks = this.outputTransformedToggles(
+            this.filterOutChildPages(await this.n2m.pageToMarkdown(childrenSourceId(block)))
+        );
+        return (this.n2m.toMarkdownString(mdBlocks).parent ?? "").trim();
+    }
+
+    /**
+     * 获取块的直接子块
+     * @param block - 父块
+     */
+    private async listChildBlocks(block: BlockObjectResponse): Promise<BlockObjectResponse[]> {
+        const blocks: BlockObjectResponse[] = [];
+        if (!block.has_children) {
+            return blocks;
+        }
+        for await (const child of iteratePaginatedAPI((args: ListBlockChildrenParameters) => this.listChildren(args, false), { block_id: childrenSourceId(block) })) {
+            if (isFullBlock(child)) {
+                blocks.push(child);
+            }
+        }
+        return blocks;
+    }
+
+    /**
+     * 创建只提供 blocks.children.list 的客户端,供 notion-to-md 读取子块
+     * @param store - 是否缓存读取的子块列表(只有注册了转换器的实例会调用转换器并释放缓存)
+     */
+    private cachingClient(store: boolean): Client {
+        return { blocks: { children: { list: (args: ListBlockChildrenParameters) => this.listChildren(args, store) } } } as unknown as Client;
+    }
+
+    /**
+     * 读取子块列表
+     * notion-to-md 在调用转换器之前已读取块的子块,缓存这些列表,转换器和默认转换复用而不再重复请求
+     * @param args - 请求参数
+     * @param store - 是否缓存需要转换器处理的块的子块列表,否则只读取已有的缓存
+     */
+    private listChildren(args: ListBlockChildrenParameters, store: boolean): Promise<ListBlockChildrenResponse> {
+        const key = `${args.block_id}:${args.start_cursor ?? ""}`;
+        const cached = this.childListings.get(key);
+        if (cached) {
+            return cached;
+        }
+
+        const listing = this.notion.blocks.children.list(args);
+        if (!store) {
+            return listing;
+        }
+        if (this.transformedParents.has(args.block_id)) {
+            this.childListings.set(key, listing);
+            listing.catch(() => this.childListings.delete(key));
+        }
+        return listing.then(response => {
+            // 记录由转换器转换的子块,notion-to-md 读取它们的子块后才会调用转换器
+            for (const child of response.results) {
+                if (isFullBlock(child) && child.has_children && this.transformedTypes.has(child.type)) {
+                    this.transformedParents.add(childrenSourceId(child));
+                }
+            }
+            return response;
+        });
+    }
+
+    /**
+     * 转换器处理完块后删除缓存的子块列表
+     * @param block - 块
+     */
+    private releaseChildren(block: BlockObjectResponse): void {
+        const id = childrenSourceId(block);
+        this.transformedParents.delete(id);
+        for (const key of Array.from(this.childListings.keys())) {
+            if (key.startsWith(`${id}:`)) {
+                this.childListings.delete(key);
+            }
+        }
+    }
+
+    /**
+     * 按默认方式转换块及其子块(转换器返回 false 时使用,子块同样按默认方式转换)
+     * @param block - 块
+     */
+    private async defaultBlockToMarkdown(block: BlockObjectResponse): Promise<string> {
+        const mdBlocks = this.filterOutChildPages(await this.defaultConverter.blocksToMarkdown([block]));
+        return (this.defaultConverter.toMarkdownString(mdBlocks).parent ?? "").trim();
+    }
+
+    /**
+     * notion-to-md 只输出带子块的折叠块,由转换器转换的折叠块(转换结果已包含子块)改为按普通块输出
+     * @param blocks - Markdown 块数组
+     */
+    private outputTransformedToggles(blocks: MdBlock[]): MdBlock[] {
+        if (!this.transformedTypes.has("toggle")) {
+            return blocks;
+        }
+        return blocks.map(block => ({
+            ...block,
+            type: block.type === "toggle" ? "paragraph" : block.type,
+            children: this.outputTransformedToggles(block.children),
+        }));
+    }
+
     /**
      * 递归过滤掉子页面和子数据库块
      * @param blocks - Markdown 块数组
@@ -136,3 +334,14 @@ export default class NotionToMarkdown {
             });
     }
 }
+
+/**
+ * 子块所在的块 ID:同步块的副本从原始块读取子块
+ * @param block - 父块
+ */
+function childrenSourceId(block: BlockObjectResponse): string {
+    if (block.type === "synced_block" && block.synced_block.synced_from) {
+        return block.synced_block.synced_from.block_id;
+    }
+    return block.id;
+}
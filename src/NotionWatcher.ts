@@ -0,0 +1,314 @@
+import { EventEmitter } from "events";
+import NotionClient, { NotionClientOptions, PageOrDatabase } from "./NotionClient.js";
+import NotionExporter, { ExportOptions } from "./NotionExporter.js";
+import ExportManifest, { diffManifestEntries, ManifestChange, ManifestChangeType, ManifestEntry } from "./ExportManifest.js";
+import type { ExportReportData } from "./ExportReport.js";
+import { consoleLogger, Logger, silentLogger } from "./ExportEvents.js";
+import { normalizeNotionId } from "./LinkRewriter.js";
+import Messages, { defaultMessages } from "./Messages.js";
+
+export interface NotionWatcherOptions extends NotionClientOptions {
+    exportLogger?: Logger;      // 每次导出的详细日志,默认不输出
+}
+
+export interface WatchOptions extends Omit<ExportOptions, "incremental" | "resume" | "refresh"> {
+    intervalSeconds?: number;   // 两次检查之间的间隔(秒)
+    debounceSeconds?: number;   // 发现修改后等待编辑停止的时间(秒),为 0 时立即导出
+}
+
+export interface WatchCycleEvent {
+    cycle: number;              // 同步次数,启动时的首次导出为 0
+    changes: ManifestChange[];
+    report: ExportReportData;
+}
+
+/**
+ * 监视器发出的事件及其参数
+ */
+export interface WatchEventMap {
+    cycle: [WatchCycleEvent];
+}
+
+interface EditedItem {
+    lastEditedTime: string;
+    parentId?: string;
+}
+
+// Notion 的最后编辑时间精确到分钟,且搜索索引有延迟,检查时向前多查找一段时间
+const EDIT_TIME_MARGIN_MS = 2 * 60 * 1000;
+
+// 变更日志中最多列出的变化数量
+const CHANGE_LOG_LIMIT = 20;
+
+/**
+ * Notion 监视器 - 定期检查根页面树中编辑、新增和删除的页面,增量导出受影响的页面
+ * 通过按最后编辑时间排序的搜索发现修改,与清单记录的最后编辑时间比较;有修改时等待编辑停止,
+ * 再以增量模式导出,并刷新修改页面的父页面(更新子页面和数据库链接)
+ */
+export default class NotionWatcher extends EventEmitter<WatchEventMap> {
+    private apiKey: string;
+    private options: NotionWatcherOptions;
+    private notionClient: NotionClient;
+    private logger: Logger;
+    private messages: Messages;
+    private current?: NotionExporter;
+    private synced: Map<string, string> = new Map();   // 已导出的修改(ID 到最后编辑时间)
+    private stopped: boolean = false;
+    private wake?: () => void;
+
+    /**
+     * @param apiKey - Notion API 密钥
+     * @param options - 请求限速、重试和日志选项
+     */
+    constructor(apiKey: string, options: NotionWatcherOptions = {}) {
+        super();
+        this.apiKey = apiKey;
+        this.options = options;
+        this.logger = options.logger ?? consoleLogger;
+        this.messages = options.messages ?? defaultMessages;
+        this.notionClient = new NotionClient(apiKey, { ...options, logger: this.logger });
+    }
+
+    /**
+     * 导出后持续监视,直到调用 stop()
+     * @param options - 导出和监视选项
+     */
+    public async watch(options: WatchOptions): Promise<void> {
+        const { intervalSeconds = 60, debounceSeconds = 30, ...exportOptions } = options;
+        this.stopped = false;
+
+        this.logger.info(exportOptions.workspace
+            ? this.messages.t("watch.startWorkspace", { interval: intervalSeconds })
+            : this.messages.t("watch.start", { id: exportOptions.rootPageId, interval: intervalSeconds }));
+        this.logger.info(`${this.messages.t("export.outputDir", { dir: exportOptions.outputDir })}\n`);
+
+        let since = new Date();
+        await this.sync(exportOptions, 0, []);
+
+        for (let cycle = 1; !this.stopped;) {
+            await this.sleep(intervalSeconds * 1000);
+            if (this.stopped) {
+                break;
+            }
+
+            const checkedAt = new Date();
+            try {
+                const edits = await this.findEdits(exportOptions, since);
+                if (edits.size > 0) {
+                    const settled = await this.debounce(exportOptions, since, edits, debounceSeconds);
+                    if (this.stopped) {
+                        break;
+                    }
+                    const parents = Array.from(settled.values()).flatMap(edit => (edit.parentId ? [edit.parentId] : []));
+                    await this.sync(exportOptions, cycle++, parents);
+                    for (const [id, edit] of settled) {
+                        this.synced.set(id, edit.lastEditedTime);
+                    }
+                }
+                since = checkedAt;
+            } catch (error) {
+                // 网络等临时错误不终止监视,下一次检查时重试
+                this.logger.error(this.messages.t("watch.checkFailed", { error: error instanceof Error ? error.message : String(error) }));
+            }
+        }
+
+        this.logger.info(this.messages.t("watch.stopped"));
+    }
+
+    /**
+     * 停止监视:不再开始新的检查,进行中的导出保存断点后结束
+     */
+    public stop(): void {
+        this.stopped = true;
+        this.current?.abort();
+        this.wake?.();
+    }
+
+    /**
+     * 以增量模式导出,并输出与上一次导出相比的变化
+     * @param options - 导出选项
+     * @param cycle - 同步次数
+     * @param refresh - 需要重新导出的父页面
+     */
+    private async sync(options: ExportOptions, cycle: number, refresh: string[]): Promise<void> {
+        const before = await ExportManifest.readEntries(options.outputDir);
+
+        // 每次使用新的导出器,避免沿用上一次缓存的用户名和关联页面标题
+        const exporter = new NotionExporter(this.apiKey, {
+            ...this.options,
+            logger: this.options.exportLogger ?? silentLogger,
+        });
+        this.current = exporter;
+        const report = await exporter.export({ ...options, incremental: true, refresh });
+        this.current = undefined;
+        if (exporter.isAborted()) {
+            return;
+        }
+
+        const changes = diffManifestEntries(before, await ExportManifest.readEntries(options.outputDir));
+        this.logger.info(formatChangeLog(cycle, changes, report, this.messages));
+        this.emit("cycle", { cycle, changes, report });
+    }
+
+    /**
+     * 查找指定时间之后编辑过、且属于导出范围的页面和数据库
+     * 清单中的对象按最后编辑时间判断是否修改;不在清单中的对象父级在清单中(或同样是新增的)时视为新增
+     * @param options - 导出选项
+     * @param since - 上一次检查的时间
+     * @returns 页面或数据库 ID 到编辑信息的映射
+     */
+    private async findEdits(options: ExportOptions, since: Date): Promise<Map<string, EditedItem>> {
+        const entries = new Map<string, ManifestEntry>();
+        for (const entry of await ExportManifest.readEntries(options.outputDir)) {
+            entries.set(normalizeNotionId(entry.id), entry);
+        }
+
+        const items = await this.notionClient.getEditedSince(new Date(since.getTime() - EDIT_TIME_MARGIN_MS));
+        const edits = new Map<string, EditedItem>();
+
+        // 新增页面的父级可能同样是新增的,重复匹配直到没有新的对象
+        let found = true;
+        while (found) {
+            found = false;
+            for (const item of items) {
+                const id = normalizeNotionId(item.id);
+                if (edits.has(id) || !("last_edited_time" in item)) {
+                    continue;
+                }
+
+                const entry = entries.get(id);
+                const parentId = parentIdOf(item);
+                // 不在清单中的对象(如已删除或按规则跳过的页面)导出过一次后不再触发导出
+                const edited = entry
+                    ? entry.lastEditedTime !== item.last_edited_time
+                    : this.synced.get(id) !== item.last_edited_time
+                        && (Boolean(options.workspace) || (parentId !== undefined && (entries.has(parentId) || edits.has(parentId))));
+                if (edited) {
+                    edits.set(id, { lastEditedTime: item.last_edited_time, parentId });
+                    found = true;
+                }
+            }
+        }
+
+        return edits;
+    }
+
+    /**
+     * 等待编辑停止:每隔防抖时间重新检查,直到没有新的修改
+     * @param options - 导出选项
+     * @param since - 上一次检查的时间
+     * @param edits - 已发现的修改
+     * @param debounceSeconds - 防抖时间(秒)
+     * @returns 包括等待期间新发现的所有修改
+     */
+    private async debounce(
+        options: ExportOptions,
+        since: Date,
+        edits: Map<string, EditedItem>,
+        debounceSeconds: number
+    ): Promise<Map<string, EditedItem>> {
+        if (debounceSeconds <= 0) {
+            return edits;
+        }
+
+        this.logger.info(this.messages.t("watch.edits", { count: edits.size }));
+        let pending = edits;
+        while (!this.stopped) {
+            await this.sleep(debounceSeconds * 1000);
+            if (this.stopped) {
+                break;
+            }
+
+            const latest = await this.findEdits(options, since);
+            const settled = Array.from(latest).every(([id, edit]) => pending.get(id)?.lastEditedTime === edit.lastEditedTime);
+            pending = new Map([...pending, ...latest]);
+            if (settled) {
+                break;
+            }
+        }
+        return pending;
+    }
+
+    /**
+     * 等待指定时间,调用 stop() 时立即结束
+     * @param ms - 等待时间(毫秒)
+     */
+    private sleep(ms: number): Promise<void> {
+        return new Promise(resolve => {
+            const timer = setTimeout(() => {
+                this.wake = undefined;
+                resolve();
+            }, ms);
+            this.wake = () => {
+                clearTimeout(timer);
+                this.wake = undefined;
+                resolve();
+            };
+        });
+    }
+}
+
+/**
+ * 获取页面或数据库的父页面或父数据库 ID(父级为工作区或块时为空)
+ * @param item - 页面或数据库对象
+ */
+function parentIdOf(item: PageOrDatabase): string | undefined {
+    if (!("parent" in item)) {
+        return undefined;
+    }
+    switch (item.parent.type) {
+        case "page_id":
+            return normalizeNotionId(item.parent.page_id);
+        case "database_id":
+            return normalizeNotionId(item.parent.database_id);
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * 生成一次同步的变更日志
+ * @param cycle - 同步次数,0 为启动时的首次导出
+ * @param changes - 变化列表
+ * @param report - 导出报告
+ * @param messages - 输出使用的文字
+ * @returns 可直接输出的文本
+ */
+export function formatChangeLog(
+    cycle: number,
+    changes: ManifestChange[],
+    report: ExportReportData,
+    messages: Messages = defaultMessages
+): string {
+    const time = new Date(report.finishedAt).toTimeString().substring(0, 8);
+    const title = cycle === 0 ? messages.t("watch.initialSync", { time }) : messages.t("watch.sync", { cycle, time });
+    const count = (type: ManifestChangeType) => changes.filter(change => change.type === type).length;
+
+    const lines: string[] = [];
+    if (changes.length === 0) {
+        lines.push(messages.t("watch.noChanges", { title }));
+    } else {
+        lines.push(messages.t("watch.changes", {
+            title,
+            added: count("added"),
+            updated: count("updated"),
+            moved: count("moved"),
+            removed: count("removed"),
+        }));
+    }
+
+    const symbols: Record<ManifestChangeType, string> = { added: "+", updated: "~", moved: "→", removed: "-" };
+    for (const change of changes.slice(0, CHANGE_LOG_LIMIT)) {
+        const path = change.previousPath ? `${change.previousPath} → ${change.path}` : change.path;
+        lines.push(`  ${symbols[change.type]} ${path}`);
+    }
+    if (changes.length > CHANGE_LOG_LIMIT) {
+        lines.push(`  ${messages.t("watch.moreChanges", { count: changes.length - CHANGE_LOG_LIMIT })}`);
+    }
+
+    if (report.counts.failed > 0 || report.counts.failedDownloads > 0) {
+        const { failed, failedDownloads } = report.counts;
+        lines.push(`  ${messages.t("watch.failures", { failed, failedDownloads })}`);
+    }
+    return lines.join("\n");
+}
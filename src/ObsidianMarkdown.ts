@@ -0,0 +1,83 @@
+import { posix } from "path";
+import type { PropertyValue } from "./PropertyValues.js";
+
+/**
+ * 输出风格
+ * - markdown: 标准 Markdown,使用相对路径链接
+ * - obsidian: Obsidian 仓库,使用 [[wikilink]]、![[嵌入]] 和 > [!note] 标注
+ */
+export type OutputFlavor = "markdown" | "obsidian";
+
+export const OUTPUT_FLAVORS: OutputFlavor[] = ["markdown", "obsidian"];
+
+/**
+ * 生成指向仓库内页面的 wikilink
+ * @param outputPath - 目标文件相对输出目录(仓库根目录)的路径
+ * @param text - 链接文本,与文件名相同时省略
+ * @param inTable - 是否位于表格中(需要转义别名分隔符)
+ * @param heading - 链接到的标题(以 # 开头)
+ */
+export function toWikilink(outputPath: string, text: string, inTable: boolean = false, heading: string = ""): string {
+    const target = outputPath.replace(/\.md$/, "");
+    const alias = text.replace(/[[\]|]/g, "").trim();
+    if (!alias || alias === posix.basename(target)) {
+        return `[[${target}${heading}]]`;
+    }
+    return `[[${target}${heading}${inTable ? "\\|" : "|"}${alias}]]`;
+}
+
+/**
+ * 生成嵌入附件的 wikilink
+ * @param outputPath - 附件相对输出目录的路径
+ */
+export function toEmbed(outputPath: string): string {
+    return `![[${outputPath}]]`;
+}
+
+/**
+ * 将 Markdown 内容包装为 Obsidian 标注块
+ * @param content - 标注内容
+ * @param type - 标注类型
+ */
+export function toCallout(content: string, type: string = "note"): string {
+    const lines = content.trim().split("\n").map(line => (line ? `> ${line}` : ">"));
+    return `> [!${type}]\n${lines.join("\n")}`;
+}
+
+/**
+ * 判断值是否为只有开始时间的日期对象
+ */
+function isSingleDate(value: PropertyValue): value is { start: string; end: null; time_zone: PropertyValue } {
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+        && typeof value.start === "string" && value.end === null;
+}
+
+/**
+ * 将 front matter 中的页面属性展开到顶层,便于 Dataview 直接查询
+ * 与元数据同名的属性保留元数据;只有开始时间的日期转为字符串
+ * @param data - front matter 数据
+ * @returns 展开后的数据
+ */
+export function toDataviewFrontMatter(data: Record<string, PropertyValue>): Record<string, PropertyValue> {
+    const { properties, ...flattened } = data;
+
+    if (properties && typeof properties === "object" && !Array.isArray(properties)) {
+        for (const [name, value] of Object.entries(properties)) {
+            if (!(name in flattened)) {
+                flattened[name] = isSingleDate(value) ? value.start : value;
+            }
+        }
+    }
+
+    return flattened;
+}
+
+/**
+ * 判断文本中指定位置是否位于表格行
+ * @param markdown - Markdown 内容
+ * @param offset - 字符位置
+ */
+export function isTableRow(markdown: string, offset: number): boolean {
+    const lineStart = markdown.lastIndexOf("\n", offset - 1) + 1;
+    return markdown.substring(lineStart, offset).trimStart().startsWith("|");
+}
@@ -0,0 +1,229 @@
+import type { ChildPageInfo } from "./NotionClient.js";
+import { normalizeNotionId } from "./LinkRewriter.js";
+import { detailsDirName } from "./FileNamer.js";
+import Messages, { defaultMessages } from "./Messages.js";
+
+export interface PageFilterOptions {
+    maxDepth?: number;      // 最大深度,根页面为 0
+    include?: string[];     // 只导出匹配的页面和数据库(及其子页面)
+    exclude?: string[];     // 跳过匹配的页面和数据库(及其子页面)
+    messages?: Messages;    // 决定详情目录的名称,需与导出时相同,默认为中文
+}
+
+/**
+ * 过滤结果
+ * - export: 导出页面及其子页面
+ * - traverse: 页面本身不导出,只读取子页面列表以查找匹配 include 规则的子页面
+ * - skip: 跳过页面及其所有子页面,不发送任何请求
+ */
+export type FilterDecision = "export" | "traverse" | "skip";
+
+interface FilterRule {
+    kind: "id" | "title" | "path";
+    pattern: string;
+    regex: RegExp;
+    anchored: boolean;  // 路径规则是否从输出目录开始匹配(以 / 开头)
+}
+
+/**
+ * 将 glob 转换为正则表达式:* 匹配除 / 外的任意字符,** 匹配任意层级,? 匹配单个字符
+ * @param glob - glob 模式
+ */
+function globToSource(glob: string): string {
+    let source = "";
+    for (let index = 0; index < glob.length; index++) {
+        const char = glob[index];
+        if (char === "*" && glob[index + 1] === "*") {
+            // **/ 匹配零个或多个目录
+            if (glob[index + 2] === "/") {
+                source += "(?:.*/)?";
+                index += 2;
+            } else {
+                source += ".*";
+                index++;
+            }
+        } else if (char === "*") {
+            source += "[^/]*";
+        } else if (char === "?") {
+            source += "[^/]";
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+    return source;
+}
+
+/**
+ * 解析规则:32 位十六进制为页面 ID,包含 / 的为路径,其余为标题
+ * @param pattern - 规则
+ */
+function parseRule(pattern: string): FilterRule {
+    if (/^[0-9a-f]{32}$/i.test(pattern.replace(/-/g, ""))) {
+        const id = normalizeNotionId(pattern);
+        return { kind: "id", pattern: id, regex: new RegExp(`^${id}$`), anchored: false };
+    }
+
+    if (!pattern.includes("/")) {
+        return { kind: "title", pattern, regex: new RegExp(`^${globToSource(pattern)}$`, "i"), anchored: false };
+    }
+
+    const anchored = pattern.startsWith("/");
+    let body = anchored ? pattern.substring(1) : pattern;
+    // 以 /** 结尾时同时匹配目录本身对应的页面
+    let suffix = "";
+    if (body.endsWith("/**")) {
+        body = body.substring(0, body.length - 3);
+        suffix = "(?:/.*)?";
+    }
+    const prefix = anchored ? "" : "(?:.*/)?";
+    return { kind: "path", pattern: body, regex: new RegExp(`^${prefix}${globToSource(body)}${suffix}$`, "i"), anchored };
+}
+
+/**
+ * 页面过滤器 - 按深度和 include/exclude 规则决定是否导出页面,跳过的页面及其子页面不会被读取
+ * 规则按页面 ID、标题(glob)或相对输出目录的路径(glob,与 plan 显示的路径相同,不含扩展名)匹配
+ */
+export default class PageFilter {
+    private maxDepth?: number;
+    private include: FilterRule[];
+    private exclude: FilterRule[];
+    private includedPaths: Set<string> = new Set();
+    private messages: Messages;
+
+    constructor(options: PageFilterOptions = {}) {
+        this.maxDepth = options.maxDepth;
+        this.include = (options.include ?? []).map(parseRule);
+        this.exclude = (options.exclude ?? []).map(parseRule);
+        this.messages = options.messages ?? defaultMessages;
+    }
+
+    /**
+     * 是否设置了 include 或 exclude 规则
+     */
+    public hasRules(): boolean {
+        return this.include.length > 0 || this.exclude.length > 0;
+    }
+
+    /**
+     * 指定深度的页面是否在最大深度以内
+     * @param depth - 深度,根页面为 0
+     */
+    public allowsDepth(depth: number): boolean {
+        return this.maxDepth === undefined || depth <= this.maxDepth;
+    }
+
+    /**
+     * 决定是否导出页面或数据库,父页面需要先于子页面判断
+     * @param item - 页面或数据库信息
+     * @param path - 相对输出目录、不含扩展名的路径
+     * @param depth - 深度,根页面为 0
+     */
+    public decide(item: ChildPageInfo, path: string, depth: number): FilterDecision {
+        const decision = this.peek(item, path, depth);
+        if (decision === "export" && this.include.length > 0) {
+            // 记录已包含的路径,其子页面和数据库条目同样导出
+            this.includedPaths.add(`${path}/`);
+            if (item.type === "database") {
+                this.includedPaths.add(`${detailsDirName(path, this.messages)}/`);
+            }
+        }
+        return decision;
+    }
+
+    /**
+     * 与 decide 相同,但不记录已包含的路径(用于在导出子页面前预先判断)
+     * @param item - 页面或数据库信息
+     * @param path - 相对输出目录、不含扩展名的路径
+     * @param depth - 深度,根页面为 0
+     */
+    public peek(item: ChildPageInfo, path: string, depth: number): FilterDecision {
+        if (!this.allowsDepth(depth)) {
+            return "skip";
+        }
+        if (this.exclude.some(rule => this.matches(rule, item, path))) {
+            return "skip";
+        }
+        if (this.include.length === 0
+            || this.isUnderIncluded(path)
+            || this.include.some(rule => this.matches(rule, item, path))) {
+            return "export";
+        }
+
+        // 数据库只能整体导出,页面在最大深度以内继续查找可能匹配的子页面
+        if (item.type === "page" && this.allowsDepth(depth + 1) && this.include.some(rule => this.mayMatchBelow(rule, path))) {
+            return "traverse";
+        }
+        return "skip";
+    }
+
+    /**
+     * 在分配文件名之前,按 ID 和标题规则判断目录中的页面能否导出,用于在读取数据库条目的内容前排除条目
+     * 返回 false 时 decide 必定跳过该页面;路径规则需要文件名,按可能匹配处理
+     * @param item - 页面信息
+     * @param dir - 页面所在目录相对输出目录的路径
+     * @param depth - 深度,根页面为 0
+     */
+    public mayExport(item: ChildPageInfo, dir: string, depth: number): boolean {
+        if (!this.allowsDepth(depth)) {
+            return false;
+        }
+        if (this.exclude.some(rule => rule.kind !== "path" && this.matches(rule, item, ""))) {
+            return false;
+        }
+        return this.include.length === 0
+            || this.isUnderIncluded(`${dir}/`)
+            || this.include.some(rule => rule.kind === "path" || this.matches(rule, item, ""));
+    }
+
+    /**
+     * 规则是否匹配页面
+     */
+    private matches(rule: FilterRule, item: ChildPageInfo, path: string): boolean {
+        switch (rule.kind) {
+            case "id":
+                return normalizeNotionId(item.id) === rule.pattern;
+            case "title":
+                return rule.regex.test(item.title);
+            default:
+                return rule.regex.test(path);
+        }
+    }
+
+    /**
+     * 页面是否位于已包含的页面或数据库之下
+     */
+    private isUnderIncluded(path: string): boolean {
+        for (const included of this.includedPaths) {
+            if (path.startsWith(included)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * 规则是否可能匹配路径下的子页面:ID、标题和不以 / 开头的路径规则可能匹配任意层级,
+     * 以 / 开头的路径规则逐级比较,直到遇到包含 ** 的一级(可以匹配任意层级)
+     */
+    private mayMatchBelow(rule: FilterRule, path: string): boolean {
+        if (rule.kind !== "path" || !rule.anchored) {
+            return true;
+        }
+
+        const ruleSegments = rule.pattern.split("/");
+        const pathSegments = path.split("/");
+        for (const [index, segment] of pathSegments.entries()) {
+            const ruleSegment = ruleSegments[index];
+            if (ruleSegment === undefined) {
+                return false;
+            }
+            if (ruleSegment.includes("**")) {
+                return true;
+            }
+            if (!new RegExp(`^${globToSource(ruleSegment)}$`, "i").test(segment)) {
+                return false;
+            }
+        }
+        return pathSegments.length < ruleSegments.length;
+    }
+}
@@ -0,0 +1,158 @@
+import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+
+export type PageProperty = PageObjectResponse["properties"][string];
+
+/**
+ * 保留类型信息的属性值(可直接序列化为 JSON/YAML)
+ */
+export type PropertyValue =
+    | string
+    | number
+    | boolean
+    | null
+    | PropertyValue[]
+    | { [key: string]: PropertyValue };
+
+interface RichTextLike {
+    plain_text?: string;
+}
+
+interface UserLike {
+    id: string;
+    name?: string | null;
+}
+
+interface DateLike {
+    start: string;
+    end: string | null;
+    time_zone?: string | null;
+}
+
+/**
+ * 拼接富文本的纯文本内容
+ * @param richText - 富文本数组
+ */
+export function richTextToPlainText(richText: RichTextLike[] | undefined): string {
+    return richText?.map(text => text.plain_text || "").join("") || "";
+}
+
+/**
+ * 将 Notion 日期转换为对象(start/end/time_zone)
+ */
+function dateToValue(date: DateLike | null): PropertyValue {
+    if (!date) {
+        return null;
+    }
+    return {
+        start: date.start,
+        end: date.end,
+        time_zone: date.time_zone ?? null,
+    };
+}
+
+/**
+ * 用户显示名称,名称不可用时使用用户 ID
+ */
+function userToValue(user: UserLike): string {
+    return user.name || user.id;
+}
+
+/**
+ * 将页面属性转换为保留类型的值
+ * multi_select 转为列表,checkbox 转为布尔值,date 转为对象,relation 转为页面 ID 列表
+ * @param property - 页面属性
+ * @returns 属性值
+ */
+export function propertyToValue(property: PageProperty | undefined): PropertyValue {
+    if (!property) return null;
+
+    switch (property.type) {
+        case "title":
+            return richTextToPlainText(property.title);
+        case "rich_text":
+            return richTextToPlainText(property.rich_text);
+        case "number":
+            return property.number;
+        case "select":
+            return property.select?.name ?? null;
+        case "status":
+            return property.status?.name ?? null;
+        case "multi_select":
+            return property.multi_select.map(option => option.name);
+        case "date":
+            return dateToValue(property.date);
+        case "checkbox":
+            return property.checkbox;
+        case "url":
+            return property.url;
+        case "email":
+            return property.email;
+        case "phone_number":
+            return property.phone_number;
+        case "people":
+            return property.people.map(user => userToValue(user));
+        case "files":
+            return property.files.map(file => ({
+                name: file.name,
+                url: file.type === "external" ? file.external.url : file.file.url,
+            }));
+        case "created_time":
+            return property.created_time;
+        case "last_edited_time":
+            return property.last_edited_time;
+        case "created_by":
+            return userToValue(property.created_by);
+        case "last_edited_by":
+            return userToValue(property.last_edited_by);
+        case "relation":
+            return property.relation.map(relation => relation.id);
+        case "formula":
+            switch (property.formula.type) {
+                case "string":
+                    return property.formula.string;
+                case "number":
+                    return property.formula.number;
+                case "boolean":
+                    return property.formula.boolean;
+                case "date":
+                    return dateToValue(property.formula.date);
+                default:
+                    return null;
+            }
+        case "rollup":
+            switch (property.rollup.type) {
+                case "number":
+                    return property.rollup.number;
+                case "date":
+                    return dateToValue(property.rollup.date);
+                case "array":
+                    return property.rollup.array.map(item => propertyToValue(item as PageProperty));
+                default:
+                    return null;
+            }
+        case "unique_id":
+            if (property.unique_id.number === null) {
+                return null;
+            }
+            return property.unique_id.prefix
+                ? `${property.unique_id.prefix}-${property.unique_id.number}`
+                : property.unique_id.number;
+        case "verification":
+            return property.verification?.state ?? null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * 将页面的所有属性转换为保留类型的值
+ * @param properties - 页面属性
+ * @returns 属性名到属性值的映射
+ */
+export function propertiesToValues(properties: PageObjectResponse["properties"]): Record<string, PropertyValue> {
+    const values: Record<string, PropertyValue> = {};
+    for (const [name, property] of Object.entries(properties)) {
+        values[name] = propertyToValue(property);
+    }
+    return values;
+}
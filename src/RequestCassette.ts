@@ -0,0 +1,193 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import Messages, { defaultMessages } from "./Messages.js";
+
+export type CassetteMode = "record" | "replay";
+
+/**
+ * 录制和回放所需的最小响应接口,与全局 fetch 和 undici 的响应都兼容
+ */
+export interface ResponseLike {
+    status: number;
+    statusText: string;
+    headers: { get(name: string): string | null };
+    arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+/**
+ * 录制和回放所需的最小请求参数
+ */
+export interface RequestInitLike {
+    method?: string;
+    body?: unknown;
+}
+
+interface CassetteEntry {
+    method: string;
+    url: string;
+    requestBody?: string;
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    encoding: "utf8" | "base64";
+    body: string;
+}
+
+// 只保存回放时会用到的响应头
+const RECORDED_HEADERS = ["content-type", "retry-after"];
+
+/**
+ * 回放时录制目录中没有对应的请求
+ */
+export class CassetteMissError extends Error {
+    public readonly method: string;
+    public readonly url: string;
+
+    constructor(method: string, url: string, messages: Messages = defaultMessages) {
+        super(messages.t("cassette.miss", { method, url }));
+        this.name = "CassetteMissError";
+        this.method = method;
+        this.url = url;
+    }
+}
+
+/**
+ * 请求录制器 - 将 Notion API 响应和文件下载保存到录制目录,之后可以不联网地回放
+ * 每个请求按方法、URL 和请求体保存为一个 JSON 文件,不保存请求头(包括 API 密钥)
+ */
+export default class RequestCassette {
+    private dir: string;
+    private mode: CassetteMode;
+    private ready?: Promise<void>;
+    private messages: Messages;
+
+    /**
+     * @param dir - 录制目录
+     * @param mode - 录制或回放
+     * @param messages - 错误信息使用的消息目录
+     */
+    constructor(dir: string, mode: CassetteMode, messages: Messages = defaultMessages) {
+        this.dir = dir;
+        this.mode = mode;
+        this.messages = messages;
+    }
+
+    /**
+     * 获取录制模式
+     */
+    public getMode(): CassetteMode {
+        return this.mode;
+    }
+
+    /**
+     * 包装 fetch 函数:录制模式下保存每个响应,回放模式下从录制目录返回响应而不发出请求
+     * @param fetchFn - 原始 fetch 函数
+     * @param keyOf - 计算请求 URL 的录制键,默认使用完整 URL(签名会变化的文件 URL 可以去掉签名)
+     * @returns 经过录制或回放的 fetch 函数
+     */
+    public wrapFetch<Init extends RequestInitLike>(
+        fetchFn: (url: string, init?: Init) => Promise<ResponseLike>,
+        keyOf: (url: string) => string = url => url
+    ): (url: string, init?: Init) => Promise<Response> {
+        return async (url, init) => {
+            const method = (init?.method ?? "GET").toUpperCase();
+            const requestBody = typeof init?.body === "string" ? init.body : undefined;
+            const path = join(this.dir, this.entryName(method, keyOf(url), requestBody));
+
+            if (this.mode === "replay") {
+                return this.toResponse(await this.read(path, method, url));
+            }
+
+            const response = await fetchFn(url, init);
+            const entry = await this.toEntry(method, url, requestBody, response);
+            await this.write(path, entry);
+            return this.toResponse(entry);
+        };
+    }
+
+    /**
+     * 生成请求的录制文件名:可读的方法和路径前缀加上请求的哈希
+     * @param method - 请求方法
+     * @param url - 请求 URL
+     * @param requestBody - 请求体
+     */
+    private entryName(method: string, url: string, requestBody?: string): string {
+        const hash = createHash("sha256")
+            .update(`${method} ${url}\n${requestBody ?? ""}`)
+            .digest("hex")
+            .substring(0, 16);
+
+        let pathname = url;
+        try {
+            const urlObj = new URL(url);
+            pathname = `${urlObj.hostname}${urlObj.pathname}`;
+        } catch {
+            // 无法解析的 URL 直接使用原始值
+        }
+        const slug = pathname.replace(/[^A-Za-z0-9]+/g, "-").replace(/^-|-$/g, "").substring(0, 80);
+
+        return `${method.toLowerCase()}-${slug}-${hash}.json`;
+    }
+
+    /**
+     * 读取响应内容并转换为录制条目,文本内容按 UTF-8 保存,其他内容按 base64 保存
+     */
+    private async toEntry(method: string, url: string, requestBody: string | undefined, response: ResponseLike): Promise<CassetteEntry> {
+        const headers: Record<string, string> = {};
+        for (const name of RECORDED_HEADERS) {
+            const value = response.headers.get(name);
+            if (value !== null) {
+                headers[name] = value;
+            }
+        }
+
+        const buffer = Buffer.from(await response.arrayBuffer());
+        const isText = /json|text/.test(headers["content-type"] ?? "");
+
+        return {
+            method,
+            url,
+            requestBody,
+            status: response.status,
+            statusText: response.statusText,
+            headers,
+            encoding: isText ? "utf8" : "base64",
+            body: buffer.toString(isText ? "utf8" : "base64"),
+        };
+    }
+
+    /**
+     * 将录制条目还原为响应
+     */
+    private toResponse(entry: CassetteEntry): Response {
+        const body = Buffer.from(entry.body, entry.encoding);
+        // 无内容的状态码不能带有响应体
+        const hasBody = ![204, 205, 304].includes(entry.status);
+        return new Response(hasBody ? body : null, {
+            status: entry.status,
+            statusText: entry.statusText,
+            headers: entry.headers,
+        });
+    }
+
+    /**
+     * 读取录制条目
+     */
+    private async read(path: string, method: string, url: string): Promise<CassetteEntry> {
+        try {
+            return JSON.parse(await readFile(path, "utf-8")) as CassetteEntry;
+        } catch {
+            throw new CassetteMissError(method, url, this.messages);
+        }
+    }
+
+    /**
+     * 写入录制条目,相同的请求只保留最后一次响应
+     */
+    private async write(path: string, entry: CassetteEntry): Promise<void> {
+        this.ready ??= mkdir(this.dir, { recursive: true }).then(() => undefined);
+        await this.ready;
+        await writeFile(path, JSON.stringify(entry, null, 2), "utf-8");
+    }
+}
@@ -0,0 +1,180 @@
+export interface RequestSchedulerOptions {
+    requestsPerSecond?: number;   // 每秒最多发出的请求数(Notion 限制约为 3)
+    maxRetries?: number;          // 429/5xx 及网络错误的最大重试次数
+    initialRetryDelayMs?: number; // 指数退避的初始延迟
+    maxRetryDelayMs?: number;     // 单次重试的最大延迟
+}
+
+/**
+ * 与 Notion Client 的 fetch 选项兼容的最小 fetch 签名
+ */
+export type FetchLike<Init, Res extends { status: number; headers: unknown }> = (url: string, init?: Init) => Promise<Res>;
+
+/**
+ * 判断请求重复发送是否安全
+ */
+export type RetrySafetyCheck = (url: string, method: string) => boolean;
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+
+// 重复发送不会产生额外效果的请求方法
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+/**
+ * 默认只有幂等的请求方法可以在 5xx 和网络错误后重试
+ * @param url - 请求地址
+ * @param method - 请求方法
+ */
+export function isIdempotentRequest(url: string, method: string): boolean {
+    return IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * 请求调度器 - 限制请求速率,并对限流和临时错误进行指数退避重试
+ * 429 表示请求未被处理,总是重试;5xx 和网络错误时请求可能已经生效,只重试重复发送安全的请求,
+ * 避免重复创建页面或追加内容
+ */
+export default class RequestScheduler {
+    private interval: number;
+    private maxRetries: number;
+    private initialRetryDelayMs: number;
+    private maxRetryDelayMs: number;
+    private nextSlot: number = 0;
+
+    constructor(options: RequestSchedulerOptions = {}) {
+        const { requestsPerSecond = 3, maxRetries = 5, initialRetryDelayMs = 1000, maxRetryDelayMs = 60000 } = options;
+        this.interval = 1000 / Math.max(requestsPerSecond, 0.001);
+        this.maxRetries = maxRetries;
+        this.initialRetryDelayMs = initialRetryDelayMs;
+        this.maxRetryDelayMs = maxRetryDelayMs;
+    }
+
+    /**
+     * 包装 fetch 函数,使每个请求都经过速率限制和重试
+     * @param fetchFn - 原始 fetch 函数
+     * @param isRetrySafe - 判断请求在 5xx 和网络错误后能否重试,默认只重试幂等的请求方法
+     * @returns 受调度的 fetch 函数
+     */
+    public wrapFetch<Init extends { method?: string }, Res extends { status: number; headers: unknown }>(
+        fetchFn: FetchLike<Init, Res>,
+        isRetrySafe: RetrySafetyCheck = isIdempotentRequest
+    ): FetchLike<Init, Res> {
+        return async (url, init) => {
+            const retrySafe = isRetrySafe(url, init?.method ?? "GET");
+            for (let attempt = 0; ; attempt++) {
+                await this.acquire();
+
+                let response: Res;
+                try {
+                    response = await fetchFn(url, init);
+                } catch (error) {
+                    // 网络错误(连接重置、超时等)同样重试
+                    if (!retrySafe || attempt >= this.maxRetries) {
+                        throw error;
+                    }
+                    await this.backoff(this.retryDelay(attempt));
+                    continue;
+                }
+
+                const retryable = response.status === 429 || (retrySafe && RETRYABLE_STATUS.has(response.status));
+                if (!retryable || attempt >= this.maxRetries) {
+                    return response;
+                }
+
+                const retryAfter = this.parseRetryAfter(response.headers);
+                await this.backoff(retryAfter ?? this.retryDelay(attempt));
+            }
+        };
+    }
+
+    /**
+     * 等待下一个可用的请求时间片
+     */
+    private async acquire(): Promise<void> {
+        const now = Date.now();
+        const slot = Math.max(now, this.nextSlot);
+        this.nextSlot = slot + this.interval;
+        if (slot > now) {
+            await sleep(slot - now);
+        }
+    }
+
+    /**
+     * 暂停所有后续请求,直到退避时间结束
+     * @param delayMs - 退避时间(毫秒)
+     */
+    private async backoff(delayMs: number): Promise<void> {
+        const resumeAt = Date.now() + delayMs;
+        this.nextSlot = Math.max(this.nextSlot, resumeAt);
+        await sleep(delayMs);
+    }
+
+    /**
+     * 计算指数退避延迟(带随机抖动)
+     * @param attempt - 已重试次数
+     */
+    private retryDelay(attempt: number): number {
+        const delay = this.initialRetryDelayMs * 2 ** attempt;
+        const jitter = Math.random() * this.initialRetryDelayMs;
+        return Math.min(delay + jitter, this.maxRetryDelayMs);
+    }
+
+    /**
+     * 解析 Retry-After 响应头(秒数或 HTTP 日期)
+     * @param headers - 响应头
+     * @returns 延迟毫秒数,无法解析时返回 undefined
+     */
+    private parseRetryAfter(headers: unknown): number | undefined {
+        if (!headers || typeof (headers as { get?: unknown }).get !== "function") {
+            return undefined;
+        }
+
+        const value = (headers as { get(name: string): string | null }).get("retry-after");
+        if (!value) {
+            return undefined;
+        }
+
+        const seconds = Number(value);
+        if (!Number.isNaN(seconds)) {
+            return Math.min(seconds * 1000, this.maxRetryDelayMs);
+        }
+
+        const date = Date.parse(value);
+        if (!Number.isNaN(date)) {
+            return Math.min(Math.max(date - Date.now(), 0), this.maxRetryDelayMs);
+        }
+
+        return undefined;
+    }
+}
+
+/**
+ * 以有限并发执行异步任务,保持结果与输入顺序一致
+ * @param items - 输入数组
+ * @param limit - 最大并发数
+ * @param task - 对每个元素执行的异步任务
+ * @returns 任务结果数组
+ */
+export async function mapConcurrent<T, R>(
+    items: T[],
+    limit: number,
+    task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+
+    const worker = async (): Promise<void> => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await task(items[index], index);
+        }
+    };
+
+    const workers = Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker);
+    await Promise.all(workers);
+    return results;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
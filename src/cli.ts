@@ -1,10 +1,257 @@
 #!/usr/bin/env node
-import { Command } from "commander";
+import { Command, InvalidArgumentError, Option, OptionValues } from "commander";
 import { config } from "dotenv";
-import NotionExporter from "./NotionExporter.js";
+import { writeFile } from "fs/promises";
+import {
+    BUILTIN_TRANSFORMER_NAMES,
+    BuiltinTransformerName,
+    createConsoleLogger,
+    DATABASE_FORMATS,
+    DatabaseFormat,
+    DatabaseQueryRule,
+    DEFAULT_OUTPUT_DIR,
+    ExportProgress,
+    EXTERNAL_LINK_MODES,
+    ExportOptions,
+    ExportReportData,
+    FAIL_ON_POLICIES,
+    findConfigFile,
+    formatPlanTree,
+    formatPushResult,
+    loadConfig,
+    LOCALES,
+    LOG_FORMATS,
+    Logger,
+    LogLevel,
+    Messages,
+    NAMING_STRATEGIES,
+    NotionExporter,
+    NotionPusher,
+    NotionWatcher,
+    OUTPUT_FLAVORS,
+    parseDatabaseRule,
+    ProfileExport,
+    ProfileSettings,
+    RequestCassette,
+    resolveProfiles,
+    shouldFail,
+    WORKSPACE_ROOT_ID,
+} from "./index.js";
 
 config();
 
+/**
+ * 解析正数选项值
+ */
+function parsePositiveNumber(value: string): number {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+        throw new InvalidArgumentError("Must be a positive number.");
+    }
+    return parsed;
+}
+
+/**
+ * 解析非负整数选项值
+ */
+function parseNonNegativeInteger(value: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+        throw new InvalidArgumentError("Must be a non-negative integer.");
+    }
+    return parsed;
+}
+
+/**
+ * 解析逗号分隔的数据库导出格式
+ */
+function parseDatabaseFormats(value: string): DatabaseFormat[] {
+    const formats = value.split(",").map(format => format.trim().toLowerCase()).filter(Boolean);
+    for (const format of formats) {
+        if (!DATABASE_FORMATS.includes(format as DatabaseFormat)) {
+            throw new InvalidArgumentError(`Allowed formats are ${DATABASE_FORMATS.join(", ")}.`);
+        }
+    }
+    return formats as DatabaseFormat[];
+}
+
+/**
+ * 收集可重复指定的 "<数据库 ID 或标题>:<表达式>" 选项
+ */
+function collectDatabaseRule(value: string, previous: string[]): string[] {
+    try {
+        parseDatabaseRule(value);
+    } catch {
+        throw new InvalidArgumentError("Expected <database id or title>:<expression>.");
+    }
+    return [...previous, value];
+}
+
+/**
+ * 收集可重复指定的选项值
+ */
+function collect(value: string, previous: string[]): string[] {
+    return [...previous, value];
+}
+
+/**
+ * 收集可重复指定的内置块转换器名称
+ */
+function collectTransformer(value: string, previous: BuiltinTransformerName[]): BuiltinTransformerName[] {
+    if (!BUILTIN_TRANSFORMER_NAMES.includes(value as BuiltinTransformerName)) {
+        throw new InvalidArgumentError(`Allowed transformers are ${BUILTIN_TRANSFORMER_NAMES.join(", ")}.`);
+    }
+    return [...previous, value as BuiltinTransformerName];
+}
+
+/**
+ * 合并配置集和命令行中的数据库筛选和排序规则,命令行中的规则优先
+ */
+function databaseQueryRules(options: OptionValues): DatabaseQueryRule[] {
+    const filters = (options.dbFilter as string[]).map(value => {
+        const { database, expression } = parseDatabaseRule(value);
+        return { database, filter: expression };
+    });
+    const sorts = (options.dbSort as string[]).map(value => {
+        const { database, expression } = parseDatabaseRule(value);
+        return { database, sort: expression };
+    });
+    return [...(options.databases ?? []), ...filters, ...sorts];
+}
+
+/**
+ * 通过日志输出选项错误并退出,--log-format json 时错误同样为 JSON
+ */
+function exitWithError(logger: Logger, message: string): never {
+    logger.error(message);
+    process.exit(1);
+}
+
+/**
+ * 读取 API 密钥,缺失时退出;回放录制的响应时不需要密钥
+ */
+function resolveApiKey(logger: Logger, messages: Messages, offline: boolean = false): string {
+    const apiKey = process.env.NOTION_API_KEY;
+
+    if (!apiKey) {
+        if (offline) {
+            return "";
+        }
+        exitWithError(logger, messages.t("cli.missingApiKey"));
+    }
+
+    return apiKey;
+}
+
+/**
+ * 读取页面 ID 和 API 密钥,缺失时退出;导出整个工作区时使用工作区标识代替页面 ID
+ */
+function resolveCredentials(
+    pageId: string | undefined,
+    logger: Logger,
+    messages: Messages,
+    workspace: boolean = false,
+    offline: boolean = false
+): { id: string; apiKey: string } {
+    if (workspace) {
+        if (pageId) {
+            exitWithError(logger, messages.t("cli.pageIdWithWorkspace"));
+        }
+        return { id: WORKSPACE_ROOT_ID, apiKey: resolveApiKey(logger, messages, offline) };
+    }
+
+    const id = pageId || process.env.NOTION_PAGE_ID;
+
+    if (!id) {
+        exitWithError(logger, messages.t("cli.missingPageId"));
+    }
+
+    return { id, apiKey: resolveApiKey(logger, messages, offline) };
+}
+
+/**
+ * 根据 --record 或 --replay 创建请求录制器,两者同时指定时退出
+ */
+function resolveCassette(options: OptionValues, logger: Logger): RequestCassette | undefined {
+    if (options.record && options.replay) {
+        exitWithError(logger, createMessages(options).t("cli.recordWithReplay"));
+    }
+    if (options.record) {
+        return new RequestCassette(options.record, "record", createMessages(options));
+    }
+    if (options.replay) {
+        return new RequestCassette(options.replay, "replay", createMessages(options));
+    }
+    return undefined;
+}
+
+/**
+ * 读取配置文件中选定配置集的导出任务,命令行指定的 --output 代替配置中的输出目录
+ */
+async function loadProfileExports(options: OptionValues, command: Command): Promise<ProfileExport[]> {
+    const messages = createMessages(options);
+    const configPath = options.config ?? await findConfigFile(process.cwd());
+    if (!configPath) {
+        throw new Error(messages.t("cli.missingConfig"));
+    }
+
+    const config = await loadConfig(configPath, messages);
+    const names: string[] = options.all ? Object.keys(config.profiles) : [options.profile];
+    const outputOverride = command.getOptionValueSource("output") === "cli" ? options.output : undefined;
+    return resolveProfiles(config, names, outputOverride, messages);
+}
+
+/**
+ * 将配置集的设置合并到命令行选项,命令行中显式指定的选项优先
+ */
+function applyProfileSettings(options: OptionValues, command: Command, settings: ProfileSettings): OptionValues {
+    const merged: OptionValues = { ...options };
+    for (const [key, value] of Object.entries(settings)) {
+        if (value !== undefined && command.getOptionValueSource(key) !== "cli") {
+            merged[key] = value;
+        }
+    }
+    return merged;
+}
+
+/**
+ * 根据 --quiet、--verbose 和 --debug 确定日志级别
+ */
+function resolveLogLevel(options: OptionValues): LogLevel {
+    return options.debug ? "debug" : options.verbose ? "verbose" : options.quiet ? "warn" : "info";
+}
+
+/**
+ * 按日志级别和 --log-format 创建输出到控制台的日志,--quiet 与 --verbose 或 --debug 同时指定时退出
+ */
+function createLogger(options: OptionValues): Logger {
+    const logger = createConsoleLogger({ level: resolveLogLevel(options), format: options.logFormat });
+    if (options.quiet && (options.verbose || options.debug)) {
+        exitWithError(logger, createMessages(options).t("cli.quietWithVerbose"));
+    }
+    return logger;
+}
+
+/**
+ * 根据 --lang 和配置中覆盖的消息创建消息目录
+ */
+function createMessages(options: OptionValues): Messages {
+    return new Messages(options.lang, options.messages);
+}
+
+/**
+ * 生成并输出导出计划
+ */
+async function printPlan(
+    exporter: NotionExporter,
+    options: ExportOptions,
+    format: "tree" | "json",
+    messages: Messages
+): Promise<void> {
+    const plan = await exporter.plan(options);
+    console.log(format === "json" ? JSON.stringify(plan, null, 2) : formatPlanTree(plan, messages));
+}
+
 const program = new Command();
 
 program
@@ -17,33 +264,439 @@ program
     .command("export")
     .description("Export Notion page and all its subpages to Markdown files")
     .argument("[pageId]", "Notion page ID (reads from NOTION_PAGE_ID env var if not provided)")
-    .option("-o, --output <dir>", "Output directory", "./notion-export")
+    .option("-o, --output <dir>", "Output directory", DEFAULT_OUTPUT_DIR)
     .option("--no-download-media", "Do not download images and files locally (downloads by default)")
     .option("-a, --attachments-dir <name>", "Attachments directory name", "attachments")
-    .action(async (pageId, options) => {
-        const id = pageId || process.env.NOTION_PAGE_ID;
-        const apiKey = process.env.NOTION_API_KEY;
+    .option("-i, --incremental", "Skip pages that have not changed since the last export")
+    .option("--resume", "Continue an interrupted export from its checkpoint")
+    .option("-c, --concurrency <n>", "Maximum number of sibling pages exported concurrently", parsePositiveNumber, 3)
+    .option("--rate-limit <n>", "Maximum Notion API requests per second", parsePositiveNumber, 3)
+    .option("--max-retries <n>", "Retries for rate-limited or failed requests", parseNonNegativeInteger, 5)
+    .addOption(
+        new Option("--external-links <mode>", "How to handle links to pages outside the export")
+            .choices(EXTERNAL_LINK_MODES)
+            .default("keep")
+    )
+    .option("--front-matter", "Add YAML front matter with page metadata and properties to each page")
+    .option("--database-format <formats>", "Comma-separated database formats: md, csv, json (Markdown is always written)", parseDatabaseFormats, ["md"])
+    .addOption(
+        new Option("--naming <strategy>", "File naming strategy; duplicate names among siblings get a short ID suffix")
+            .choices(NAMING_STRATEGIES)
+            .default("title")
+    )
+    .addOption(
+        new Option("--flavor <flavor>", "Output flavor; obsidian uses wikilinks, embeds, callouts and Dataview-friendly front matter")
+            .choices(OUTPUT_FLAVORS)
+            .default("markdown")
+    )
+    .option("--transformer <name>", `Render a block type with a built-in transformer: ${BUILTIN_TRANSFORMER_NAMES.join(", ")} (repeatable)`, collectTransformer, [])
+    .option("--db-filter <rule>", "Only export database rows matching <database id or title>:<filter>, e.g. \"Tasks:Status = Published\" (repeatable)", collectDatabaseRule, [])
+    .option("--db-sort <rule>", "Sort database rows by <database id or title>:<sorts>, e.g. \"Tasks:Date desc\" (repeatable)", collectDatabaseRule, [])
+    .option("--max-depth <n>", "Only export pages up to <n> levels below the root (the root is level 0)", parseNonNegativeInteger)
+    .option("--include <pattern>", "Only export pages matching a page ID, title glob or path glob, with their subpages (repeatable)", collect, [])
+    .option("--exclude <pattern>", "Skip pages matching a page ID, title glob or path glob, e.g. \"Archive/**\" (repeatable)", collect, [])
+    .option("--report <file>", "Write a JSON report with per-page status, durations and failures")
+    .addOption(
+        new Option("--fail-on <policy>", "Exit with code 2 when pages or downloads failed (any), only pages failed (pages), or never")
+            .choices(FAIL_ON_POLICIES)
+            .default("any")
+    )
+    .option("--dry-run", "Print the pages, databases and output paths that would be exported without writing files")
+    .option("--config <file>", "Configuration file (default: notion-pull.config.{json,yaml,yml} in the current directory)")
+    .option("-p, --profile <name>", "Export the roots of a configuration profile; command line options override its settings")
+    .option("--all", "Export the roots of every configuration profile")
+    .option("--workspace", "Export every top-level page and database shared with the integration")
+    .option("--record <dir>", "Save every Notion API response and media download to a cassette directory")
+    .option("--replay <dir>", "Serve the export from a recorded cassette directory without network access or API key")
+    .option("--prune", "Delete the files of pages, databases and attachments that the previous export wrote but this one no longer does")
+    .option("--git", "Commit the files the export wrote, moved or deleted to the git repository of the output directory")
+    .option("--git-per-page", "With --git, commit each page separately with its last Notion editor as the author")
+    .addOption(
+        new Option("--lang <locale>", "Language of generated content and log messages")
+            .choices(LOCALES)
+            .default("zh-CN")
+    )
+    .option("-q, --quiet", "Only print warnings and errors")
+    .option("--verbose", "Also print each written file and download with its duration")
+    .option("--debug", "Also print each Notion API request with its status and duration")
+    .addOption(
+        new Option("--log-format <format>", "Log output format; json prints one JSON object per line for log shippers")
+            .choices(LOG_FORMATS)
+            .default("text")
+    )
+    .option("--no-progress", "Do not show the progress line on a terminal")
+    .action(async (pageId, options, command: Command) => {
+        const logger = createLogger(options);
+        const messages = createMessages(options);
+        const useProfiles = Boolean(options.profile || options.all);
+        if (useProfiles && (pageId || options.workspace)) {
+            exitWithError(logger, messages.t("cli.pageIdWithProfile"));
+        }
+        // 进度行只在终端中显示,且不与 JSON 日志和 --quiet 同时使用
+        const showProgress = options.progress && options.logFormat === "text" && !options.quiet && ExportProgress.isSupported();
+        const cassette = resolveCassette(options, logger);
+        const offline = cassette?.getMode() === "replay";
+
+        try {
+            let jobs: { rootPageId: string; options: OptionValues; label?: string }[];
+            let apiKey: string;
+            if (useProfiles) {
+                apiKey = resolveApiKey(logger, messages, offline);
+                jobs = (await loadProfileExports(options, command)).map(job => ({
+                    rootPageId: job.rootPageId,
+                    options: { ...applyProfileSettings(options, command, job.settings), output: job.settings.output },
+                    label: `${job.profile}: ${job.rootPageId}`,
+                }));
+            } else {
+                const credentials = resolveCredentials(pageId, logger, messages, options.workspace, offline);
+                apiKey = credentials.apiKey;
+                jobs = [{ rootPageId: credentials.id, options }];
+            }
+
+            if (options.dryRun) {
+                for (const job of jobs) {
+                    if (job.label) {
+                        logger.info(`\n=== ${job.label} ===`);
+                    }
+                    const jobMessages = createMessages(job.options);
+                    const exporter = new NotionExporter(apiKey, {
+                        requestsPerSecond: job.options.rateLimit,
+                        maxRetries: job.options.maxRetries,
+                        cassette,
+                        logger,
+                        messages: jobMessages,
+                    });
+                    await printPlan(exporter, {
+                        rootPageId: job.rootPageId,
+                        outputDir: job.options.output,
+                        concurrency: job.options.concurrency,
+                        databaseFormats: job.options.databaseFormat,
+                        naming: job.options.naming,
+                        workspace: job.options.workspace,
+                        databaseQueries: databaseQueryRules(job.options),
+                        maxDepth: job.options.maxDepth,
+                        include: job.options.include,
+                        exclude: job.options.exclude,
+                    }, "tree", jobMessages);
+                }
+                return;
+            }
+
+            // 第一次中断信号保存断点并等待进行中的页面完成,第二次立即退出
+            let current: { exporter: NotionExporter; logger: Logger; messages: Messages } | undefined;
+            for (const signal of ["SIGINT", "SIGTERM"] as const) {
+                process.once(signal, () => {
+                    (current?.logger ?? logger).info(`\n${(current?.messages ?? messages).t("export.interrupting")}`);
+                    current?.exporter.abort();
+                    process.once(signal, () => process.exit(130));
+                });
+            }
+
+            const reports: ExportReportData[] = [];
+            let failed = false;
+            for (const job of jobs) {
+                if (job.label) {
+                    logger.info(`\n=== ${job.label} ===`);
+                }
+                const jobMessages = createMessages(job.options);
+                const progress = showProgress ? new ExportProgress(process.stderr, jobMessages) : undefined;
+                const jobLogger = progress ? progress.wrapLogger(logger) : logger;
+                const exporter = new NotionExporter(apiKey, {
+                    requestsPerSecond: job.options.rateLimit,
+                    maxRetries: job.options.maxRetries,
+                    cassette,
+                    logger: jobLogger,
+                    messages: jobMessages,
+                });
+                current = { exporter, logger: jobLogger, messages: jobMessages };
+                progress?.attach(exporter);
+                progress?.start();
+
+                const report = await exporter.export({
+                    rootPageId: job.rootPageId,
+                    outputDir: job.options.output,
+                    downloadMedia: job.options.downloadMedia,
+                    attachmentsDir: job.options.attachmentsDir,
+                    incremental: job.options.incremental,
+                    concurrency: job.options.concurrency,
+                    externalLinks: job.options.externalLinks,
+                    frontMatter: job.options.frontMatter,
+                    databaseFormats: job.options.databaseFormat,
+                    resume: job.options.resume,
+                    naming: job.options.naming,
+                    flavor: job.options.flavor,
+                    workspace: job.options.workspace,
+                    databaseQueries: databaseQueryRules(job.options),
+                    maxDepth: job.options.maxDepth,
+                    include: job.options.include,
+                    exclude: job.options.exclude,
+                    prune: job.options.prune,
+                    git: job.options.git,
+                    gitPerPage: job.options.gitPerPage,
+                    // 配置集中的转换器在前,命令行中指定的转换器优先
+                    transformers: [...(job.options.transformers ?? []), ...job.options.transformer],
+                }).finally(() => progress?.stop());
+                reports.push(report);
 
-        if (!id) {
-            console.error("❌ Error: Missing page ID. Provide it as an argument or set NOTION_PAGE_ID in .env file");
+                if (shouldFail(report, job.options.failOn)) {
+                    logger.error(jobMessages.t("cli.exportFailures", { pages: report.counts.failed, downloads: report.counts.failedDownloads }));
+                    failed = true;
+                }
+                if (exporter.isAborted()) {
+                    break;
+                }
+            }
+
+            // 使用配置集时报告为每个根页面报告组成的数组
+            if (options.report) {
+                await writeFile(options.report, JSON.stringify(useProfiles ? reports : reports[0], null, 2), "utf-8");
+            }
+
+            if (current?.exporter.isAborted()) {
+                process.exit(130);
+            }
+
+            if (failed) {
+                process.exit(2);
+            }
+        } catch (error) {
+            logger.error(messages.t("cli.exportFailed", { error: error instanceof Error ? error.message : String(error) }));
             process.exit(1);
         }
+    });
+
+// Plan command
+program
+    .command("plan")
+    .description("Show the pages, databases, row counts and output paths an export would produce, without writing files")
+    .argument("[pageId]", "Notion page ID (reads from NOTION_PAGE_ID env var if not provided)")
+    .addOption(
+        new Option("-f, --format <format>", "Output format")
+            .choices(["tree", "json"])
+            .default("tree")
+    )
+    .option("-o, --output <dir>", "Output directory of a previous export, used to predict file names", DEFAULT_OUTPUT_DIR)
+    .option("-c, --concurrency <n>", "Maximum number of sibling pages read concurrently", parsePositiveNumber, 3)
+    .option("--rate-limit <n>", "Maximum Notion API requests per second", parsePositiveNumber, 3)
+    .option("--max-retries <n>", "Retries for rate-limited or failed requests", parseNonNegativeInteger, 5)
+    .option("--database-format <formats>", "Comma-separated database formats: md, csv, json (Markdown is always written)", parseDatabaseFormats, ["md"])
+    .addOption(
+        new Option("--naming <strategy>", "File naming strategy")
+            .choices(NAMING_STRATEGIES)
+            .default("title")
+    )
+    .option("--workspace", "Plan an export of every top-level page and database shared with the integration")
+    .option("--db-filter <rule>", "Only include database rows matching <database id or title>:<filter> (repeatable)", collectDatabaseRule, [])
+    .option("--db-sort <rule>", "Sort database rows by <database id or title>:<sorts> (repeatable)", collectDatabaseRule, [])
+    .option("--max-depth <n>", "Only include pages up to <n> levels below the root (the root is level 0)", parseNonNegativeInteger)
+    .option("--include <pattern>", "Only include pages matching a page ID, title glob or path glob (repeatable)", collect, [])
+    .option("--exclude <pattern>", "Skip pages matching a page ID, title glob or path glob (repeatable)", collect, [])
+    .option("--record <dir>", "Save every Notion API response to a cassette directory")
+    .option("--replay <dir>", "Serve the plan from a recorded cassette directory without network access or API key")
+    .addOption(
+        new Option("--lang <locale>", "Language of generated content and log messages")
+            .choices(LOCALES)
+            .default("zh-CN")
+    )
+    .option("-q, --quiet", "Only print warnings and errors")
+    .option("--verbose", "Also print each written file and download with its duration")
+    .option("--debug", "Also print each Notion API request with its status and duration")
+    .addOption(
+        new Option("--log-format <format>", "Log output format; json prints one JSON object per line for log shippers")
+            .choices(LOG_FORMATS)
+            .default("text")
+    )
+    .action(async (pageId, options) => {
+        const logger = createLogger(options);
+        const messages = createMessages(options);
+        const cassette = resolveCassette(options, logger);
+        const { id, apiKey } = resolveCredentials(pageId, logger, messages, options.workspace, cassette?.getMode() === "replay");
 
-        if (!apiKey) {
-            console.error("❌ Error: Missing API key. Set NOTION_API_KEY in .env file");
+        try {
+            const exporter = new NotionExporter(apiKey, {
+                requestsPerSecond: options.rateLimit,
+                maxRetries: options.maxRetries,
+                cassette,
+                logger,
+                messages,
+            });
+            await printPlan(exporter, {
+                rootPageId: id,
+                outputDir: options.output,
+                concurrency: options.concurrency,
+                databaseFormats: options.databaseFormat,
+                naming: options.naming,
+                workspace: options.workspace,
+                databaseQueries: databaseQueryRules(options),
+                maxDepth: options.maxDepth,
+                include: options.include,
+                exclude: options.exclude,
+            }, options.format, messages);
+        } catch (error) {
+            logger.error(messages.t("cli.planFailed", { error: error instanceof Error ? error.message : String(error) }));
             process.exit(1);
         }
+    });
+
+// Watch command
+program
+    .command("watch")
+    .description("Export a page tree, then keep re-exporting the pages that are edited, added or removed in Notion")
+    .argument("[pageId]", "Notion page ID (reads from NOTION_PAGE_ID env var if not provided)")
+    .option("-o, --output <dir>", "Output directory", DEFAULT_OUTPUT_DIR)
+    .option("--interval <seconds>", "Seconds between checks for edited pages", parsePositiveNumber, 60)
+    .option("--debounce <seconds>", "Seconds without further edits to wait before re-exporting (0 exports right away)", parseNonNegativeInteger, 30)
+    .option("--verbose", "Print the full export log of each cycle instead of only the change log")
+    .option("--debug", "Also print each Notion API request with its status and duration")
+    .addOption(
+        new Option("--log-format <format>", "Log output format; json prints one JSON object per line for log shippers")
+            .choices(LOG_FORMATS)
+            .default("text")
+    )
+    .option("--no-download-media", "Do not download images and files locally (downloads by default)")
+    .option("-a, --attachments-dir <name>", "Attachments directory name", "attachments")
+    .option("-c, --concurrency <n>", "Maximum number of sibling pages exported concurrently", parsePositiveNumber, 3)
+    .option("--rate-limit <n>", "Maximum Notion API requests per second", parsePositiveNumber, 3)
+    .option("--max-retries <n>", "Retries for rate-limited or failed requests", parseNonNegativeInteger, 5)
+    .addOption(
+        new Option("--external-links <mode>", "How to handle links to pages outside the export")
+            .choices(EXTERNAL_LINK_MODES)
+            .default("keep")
+    )
+    .option("--front-matter", "Add YAML front matter with page metadata and properties to each page")
+    .option("--database-format <formats>", "Comma-separated database formats: md, csv, json (Markdown is always written)", parseDatabaseFormats, ["md"])
+    .addOption(
+        new Option("--naming <strategy>", "File naming strategy")
+            .choices(NAMING_STRATEGIES)
+            .default("title")
+    )
+    .addOption(
+        new Option("--flavor <flavor>", "Output flavor")
+            .choices(OUTPUT_FLAVORS)
+            .default("markdown")
+    )
+    .option("--transformer <name>", "Render a block type with a built-in transformer (repeatable)", collectTransformer, [])
+    .option("--db-filter <rule>", "Only export database rows matching <database id or title>:<filter> (repeatable)", collectDatabaseRule, [])
+    .option("--db-sort <rule>", "Sort database rows by <database id or title>:<sorts> (repeatable)", collectDatabaseRule, [])
+    .option("--max-depth <n>", "Only export pages up to <n> levels below the root (the root is level 0)", parseNonNegativeInteger)
+    .option("--include <pattern>", "Only export pages matching a page ID, title glob or path glob (repeatable)", collect, [])
+    .option("--exclude <pattern>", "Skip pages matching a page ID, title glob or path glob (repeatable)", collect, [])
+    .option("--workspace", "Watch every top-level page and database shared with the integration")
+    .option("--prune", "Delete the files of removed pages, databases and attachments in each cycle")
+    .option("--git", "Commit the changes of each cycle to the git repository of the output directory")
+    .option("--git-per-page", "With --git, commit each page separately with its last Notion editor as the author")
+    .addOption(
+        new Option("--lang <locale>", "Language of generated content and log messages")
+            .choices(LOCALES)
+            .default("zh-CN")
+    )
+    .action(async (pageId, options) => {
+        const logger = createConsoleLogger({ level: options.debug ? "debug" : "info", format: options.logFormat });
+        const messages = createMessages(options);
+        const { id, apiKey } = resolveCredentials(pageId, logger, messages, options.workspace);
+
+        const watcher = new NotionWatcher(apiKey, {
+            requestsPerSecond: options.rateLimit,
+            maxRetries: options.maxRetries,
+            logger,
+            exportLogger: options.verbose || options.debug ? createLogger(options) : undefined,
+            messages,
+        });
+
+        // 第一次中断信号等待进行中的导出保存断点后停止,第二次立即退出
+        for (const signal of ["SIGINT", "SIGTERM"] as const) {
+            process.once(signal, () => {
+                logger.info(`\n${messages.t("watch.stopping")}`);
+                watcher.stop();
+                process.once(signal, () => process.exit(130));
+            });
+        }
 
         try {
-            const exporter = new NotionExporter(apiKey);
-            await exporter.export({
+            await watcher.watch({
                 rootPageId: id,
                 outputDir: options.output,
+                intervalSeconds: options.interval,
+                debounceSeconds: options.debounce,
                 downloadMedia: options.downloadMedia,
                 attachmentsDir: options.attachmentsDir,
+                concurrency: options.concurrency,
+                externalLinks: options.externalLinks,
+                frontMatter: options.frontMatter,
+                databaseFormats: options.databaseFormat,
+                naming: options.naming,
+                flavor: options.flavor,
+                workspace: options.workspace,
+                databaseQueries: databaseQueryRules(options),
+                maxDepth: options.maxDepth,
+                include: options.include,
+                exclude: options.exclude,
+                transformers: options.transformer,
+                prune: options.prune,
+                git: options.git,
+                gitPerPage: options.gitPerPage,
+            });
+        } catch (error) {
+            logger.error(messages.t("cli.watchFailed", { error: error instanceof Error ? error.message : String(error) }));
+            process.exit(1);
+        }
+    });
+
+// Push command
+program
+    .command("push")
+    .description("Create or update Notion pages from a directory of Markdown files, such as an edited export")
+    .argument("<dir>", "Directory of Markdown files")
+    .option("--parent <pageId>", "Parent page for new pages that have no parent page in the directory")
+    .option("--dry-run", "Show the pages that would be created or updated and a diff of their content without writing to Notion")
+    .option("--no-upload-media", "Leave out local images and files instead of uploading them (uploads by default)")
+    .option("--rate-limit <n>", "Maximum Notion API requests per second", parsePositiveNumber, 3)
+    .option("--max-retries <n>", "Retries for rate-limited or failed requests", parseNonNegativeInteger, 5)
+    .option("--report <file>", "Write a JSON report with the action, diff and failure of each file")
+    .addOption(
+        new Option("--lang <locale>", "Language of generated content and log messages")
+            .choices(LOCALES)
+            .default("zh-CN")
+    )
+    .option("-q, --quiet", "Only print warnings and errors")
+    .option("--verbose", "Also print each written file and download with its duration")
+    .option("--debug", "Also print each Notion API request with its status and duration")
+    .addOption(
+        new Option("--log-format <format>", "Log output format; json prints one JSON object per line for log shippers")
+            .choices(LOG_FORMATS)
+            .default("text")
+    )
+    .action(async (dir, options) => {
+        const logger = createLogger(options);
+        const messages = createMessages(options);
+        const apiKey = resolveApiKey(logger, messages);
+
+        try {
+            const pusher = new NotionPusher(apiKey, {
+                requestsPerSecond: options.rateLimit,
+                maxRetries: options.maxRetries,
+                logger,
+                messages,
             });
+            const result = await pusher.push({
+                sourceDir: dir,
+                parentPageId: options.parent,
+                dryRun: options.dryRun,
+                uploadMedia: options.uploadMedia,
+            });
+
+            if (options.dryRun) {
+                console.log(formatPushResult(result, messages));
+            }
+            if (options.report) {
+                await writeFile(options.report, JSON.stringify(result, null, 2), "utf-8");
+            }
+            if (result.counts.failed > 0) {
+                logger.error(messages.t("cli.pushFailures", { count: result.counts.failed }));
+                process.exit(2);
+            }
         } catch (error) {
-            console.error("❌ Export failed:", error instanceof Error ? error.message : String(error));
+            logger.error(messages.t("cli.pushFailed", { error: error instanceof Error ? error.message : String(error) }));
             process.exit(1);
         }
     });
@@ -0,0 +1,76 @@
+/**
+ * notion-pull 的公共 API,命令行工具同样基于这些接口实现
+ */
+export { default as NotionExporter } from "./NotionExporter.js";
+export type { ExportOptions, PageInfo } from "./NotionExporter.js";
+
+export { default as NotionPusher, formatPushResult } from "./NotionPusher.js";
+export type { PushAction, PushedPage, PushOptions, PushResult } from "./NotionPusher.js";
+
+export { default as NotionWatcher, formatChangeLog } from "./NotionWatcher.js";
+export type { NotionWatcherOptions, WatchCycleEvent, WatchEventMap, WatchOptions } from "./NotionWatcher.js";
+export type { ManifestChange, ManifestChangeType } from "./ExportManifest.js";
+
+export { default as NotionClient, WORKSPACE_ROOT_ID } from "./NotionClient.js";
+export type { ChildPageInfo, NotionClientOptions, NotionUser, PageChildren, PageOrDatabase } from "./NotionClient.js";
+export { default as RequestCassette, CassetteMissError } from "./RequestCassette.js";
+export type { CassetteMode } from "./RequestCassette.js";
+export { default as GitCommitter, GitError, formatCommitMessage, formatPageCommitMessage } from "./GitCommitter.js";
+export type { GitAuthor, GitCommitRequest } from "./GitCommitter.js";
+
+export { default as NotionToMarkdown } from "./NotionToMarkdown.js";
+export type { MediaLink } from "./NotionToMarkdown.js";
+export { BUILTIN_TRANSFORMER_NAMES, BUILTIN_TRANSFORMERS } from "./BlockTransformers.js";
+export type {
+    BlockTransformer,
+    BlockTransformerDefinition,
+    BuiltinTransformerName,
+    TransformerContext,
+    TransformerSetting,
+} from "./BlockTransformers.js";
+export { markdownToBlocks, parseRichText, toBlockRequest } from "./MarkdownToNotion.js";
+export type { MarkdownBlock, MarkdownParseOptions } from "./MarkdownToNotion.js";
+export { default as DatabaseToMarkdown } from "./DatabaseToMarkdown.js";
+export type { DatabaseToMarkdownOptions } from "./DatabaseToMarkdown.js";
+export { DATABASE_FORMATS, databaseToCsv, databaseToJson } from "./DatabaseSerializer.js";
+export type { DatabaseFormat, DatabaseJson, DatabaseJsonRow } from "./DatabaseSerializer.js";
+
+export { consoleLogger, createConsoleLogger, LOG_FORMATS, LOG_LEVELS, silentLogger } from "./ExportEvents.js";
+export type {
+    ConsoleLoggerOptions,
+    DatabaseRowsFetchedEvent,
+    DownloadFinishedEvent,
+    ExportErrorEvent,
+    ExportEventMap,
+    LogFields,
+    LogFormat,
+    Logger,
+    LogLevel,
+    MediaDownloadedEvent,
+    PagesDiscoveredEvent,
+    PageSkippedEvent,
+    PageStartedEvent,
+    PageWrittenEvent,
+    RequestFinishedEvent,
+} from "./ExportEvents.js";
+export { default as ExportProgress, formatBytes } from "./ExportProgress.js";
+export type { ProgressStream } from "./ExportProgress.js";
+
+export { FAIL_ON_POLICIES, shouldFail } from "./ExportReport.js";
+export type { ExportReportData, FailedDownload, FailOnPolicy, PageReport, PageStatus, ReportError } from "./ExportReport.js";
+export { formatPlanTree } from "./ExportPlanner.js";
+export type { ExportPlan, PlanNode, PlanSummary } from "./ExportPlanner.js";
+
+export { CONFIG_FILE_NAMES, DEFAULT_OUTPUT_DIR, findConfigFile, loadConfig, resolveProfile, resolveProfiles } from "./ExportConfig.js";
+export type { ExportConfig, ExportProfile, ProfileExport, ProfileRoot, ProfileSettings } from "./ExportConfig.js";
+export { parseDatabaseRule } from "./DatabaseQuery.js";
+export type { DatabaseQuery, DatabaseQueryRule } from "./DatabaseQuery.js";
+
+export { EXTERNAL_LINK_MODES } from "./LinkRewriter.js";
+export type { ExternalLinkMode } from "./LinkRewriter.js";
+export { NAMING_STRATEGIES } from "./FileNamer.js";
+export type { NamingStrategy } from "./FileNamer.js";
+export { OUTPUT_FLAVORS } from "./ObsidianMarkdown.js";
+export type { OutputFlavor } from "./ObsidianMarkdown.js";
+export { default as Messages, defaultMessages, isMessageKey, LOCALES } from "./Messages.js";
+export type { Locale, MessageCatalog, MessageKey, MessageOverrides } from "./Messages.js";